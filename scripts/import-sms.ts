@@ -0,0 +1,359 @@
+/**
+ * SMS IMPORT — Backfill YNAB from exported SMS history.
+ *
+ * Reads an "SMS Backup & Restore" XML file (Android) or a CSV export of
+ * messages (e.g. iMazing / iExplorer on iOS), keeps messages from senders
+ * the tenant maps to an account, and pushes them through the same pipeline as
+ * the sms-webhook function — same parsing, routing, fees and import IDs.
+ *
+ * Usage:
+ *   deno run --allow-env --allow-net --allow-read --env-file=supabase/.env \
+ *     scripts/import-sms.ts <export.xml|export.csv> [options]
+ *
+ * Options:
+ *   --dry-run            Print what would be created, post nothing
+ *   --since YYYY-MM-DD   Skip messages before this date
+ *   --until YYYY-MM-DD   Skip messages after this date
+ *   --limit N            Import at most N messages
+ *   --chunk N            Messages per pipeline batch (default 25)
+ *   --tenant ID          Import into a TENANTS entry's budget (default: the
+ *                        YNAB_TOKEN / YNAB_BUDGET_ID budget)
+ *
+ * Needs the same env vars as the webhook (YNAB_TOKEN, YNAB_BUDGET_ID and the
+ * LLM settings). With SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY set, imports
+ * are also written to the ingestion log and failures to the retry queue.
+ */
+
+import { loadAccountMappings } from "../supabase/functions/_shared/account-mappings.ts";
+import { localDate, parseDate } from "../supabase/functions/_shared/parsers.ts";
+import {
+  processSmsBatch,
+  SmsInput,
+  YnabResult,
+} from "../supabase/functions/_shared/pipeline.ts";
+import { recordOutcome } from "../supabase/functions/_shared/retry-queue.ts";
+import { getTenant } from "../supabase/functions/_shared/tenants.ts";
+
+interface ExportedSms {
+  sender: string;
+  receivedAt: string; // Original message timestamp, ISO
+  text: string;
+}
+
+interface CliOptions {
+  file: string;
+  dryRun: boolean;
+  since?: string;
+  until?: string;
+  limit?: number;
+  chunk: number;
+  tenant?: string;
+}
+
+const USAGE =
+  "Usage: scripts/import-sms.ts <export.xml|export.csv> [--dry-run] [--since YYYY-MM-DD] [--until YYYY-MM-DD] [--limit N] [--chunk N] [--tenant ID]";
+
+async function main(options: CliOptions): Promise<void> {
+  const tenant = getTenant(options.tenant);
+  if (!tenant) {
+    console.error(`Unknown tenant "${options.tenant}" — is it in TENANTS?`);
+    Deno.exit(1);
+  }
+
+  // Senders from config.ts, TENANTS and the account_mappings table
+  const mappings = await loadAccountMappings(tenant);
+
+  const content = await Deno.readTextFile(options.file);
+  const isXml = options.file.toLowerCase().endsWith(".xml") ||
+    content.trimStart().startsWith("<");
+  const source = isXml ? "sms_backup_xml" : "csv_import";
+
+  const all = isXml ? parseSmsBackupXml(content) : parseMessagesCsv(content);
+  const messages = all
+    .filter((m) => mappings.senders[m.sender.toLowerCase()] !== undefined)
+    .filter((m) => !options.since || localDate(m.receivedAt) >= options.since)
+    .filter((m) => !options.until || localDate(m.receivedAt) <= options.until)
+    .sort((a, b) => a.receivedAt.localeCompare(b.receivedAt))
+    .slice(0, options.limit);
+
+  console.log(
+    `${all.length} messages read, ${messages.length} from known senders` +
+      (options.dryRun ? " (dry run — nothing will be posted)" : ""),
+  );
+
+  const totals = { sent: 0, skipped: 0, failed: 0 };
+
+  for (let i = 0; i < messages.length; i += options.chunk) {
+    const chunk = messages.slice(i, i + options.chunk);
+    const smsList: SmsInput[] = chunk.map((m) => ({
+      source,
+      sender: m.sender,
+      text: m.text,
+      receivedAtIso: m.receivedAt,
+    }));
+
+    // Old SMS balances predate later transactions, so don't reconcile
+    const results = await processSmsBatch(smsList, {
+      dryRun: options.dryRun,
+      reconcile: false,
+      tenant,
+    });
+
+    for (const [index, sms] of smsList.entries()) {
+      const result = results[index];
+      printResult(sms, result);
+
+      if (result.sent || (options.dryRun && result.planned)) {
+        totals.sent++;
+      } else if (result.reason === "Not a transaction") {
+        totals.skipped++;
+      } else {
+        totals.failed++;
+      }
+
+      if (!options.dryRun) {
+        await recordOutcome(sms, chunk[index], result, tenant.id);
+      }
+    }
+  }
+
+  console.log(
+    `\nDone: ${totals.sent} ${options.dryRun ? "would be sent" : "sent"}, ` +
+      `${totals.skipped} not transactions, ${totals.failed} failed`,
+  );
+}
+
+function printResult(sms: SmsInput, result: YnabResult): void {
+  const header = `${sms.receivedAtIso.slice(0, 16)} ${sms.sender}`;
+
+  if (result.planned) {
+    const { main, fee, sms_fee } = result.planned;
+    console.log(`\n${header} → ${result.account}`);
+    for (const tx of [main, fee, sms_fee]) {
+      if (!tx) continue;
+      const amount = (tx.amount / 1000).toFixed(2).padStart(10);
+      console.log(`  ${tx.date} ${amount}  ${tx.memo ?? ""}`);
+    }
+    return;
+  }
+
+  const status = result.sent
+    ? `sent ${result.direction} ${result.amount} → ${result.account}` +
+      (result.duplicate_import_ids?.length ? " (duplicate)" : "")
+    : `${result.reason}${result.detail ? `: ${result.detail}` : ""}`;
+  console.log(`${header} ${status}`);
+}
+
+function parseArgs(args: string[]): CliOptions | null {
+  const options: CliOptions = { file: "", dryRun: false, chunk: 25 };
+  const dateArg = (value?: string) =>
+    value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case "--dry-run":
+        options.dryRun = true;
+        break;
+      case "--since":
+        options.since = dateArg(args[++i]);
+        if (!options.since) return null;
+        break;
+      case "--until":
+        options.until = dateArg(args[++i]);
+        if (!options.until) return null;
+        break;
+      case "--limit":
+        options.limit = Number(args[++i]);
+        if (!(options.limit > 0)) return null;
+        break;
+      case "--chunk":
+        options.chunk = Number(args[++i]);
+        if (!(options.chunk > 0)) return null;
+        break;
+      case "--tenant":
+        options.tenant = args[++i];
+        if (!options.tenant) return null;
+        break;
+      default:
+        if (arg.startsWith("--") || options.file) return null;
+        options.file = arg;
+    }
+  }
+
+  return options.file ? options : null;
+}
+
+/**
+ * Parses an "SMS Backup & Restore" XML file.
+ * Only received messages (type="1") are returned.
+ *
+ *   <smses count="2">
+ *     <sms address="AirtelMoney" date="1735725600000" type="1" body="..." />
+ *   </smses>
+ */
+export function parseSmsBackupXml(xml: string): ExportedSms[] {
+  const messages: ExportedSms[] = [];
+
+  for (const tag of xml.matchAll(/<sms\b([^>]*?)\/?>/g)) {
+    const attrs: Record<string, string> = {};
+    for (const attr of tag[1].matchAll(/([\w:-]+)="([^"]*)"/g)) {
+      attrs[attr[1]] = decodeXmlEntities(attr[2]);
+    }
+
+    if (attrs.type !== undefined && attrs.type !== "1") continue;
+
+    const receivedAt = toIsoDate(Number(attrs.date) || attrs.readable_date);
+    if (!attrs.address || !attrs.body || !receivedAt) continue;
+
+    messages.push({ sender: attrs.address, receivedAt, text: attrs.body });
+  }
+
+  return messages;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(
+      /&#x([0-9a-f]+);/gi,
+      (_, hex) => String.fromCodePoint(parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+// Header names used by common message exporters, lowercased
+const CSV_SENDER_COLUMNS = [
+  "sender",
+  "sender id",
+  "sender name",
+  "address",
+  "from",
+  "chat session",
+];
+const CSV_DATE_COLUMNS = [
+  "received_at",
+  "receivedat",
+  "message date",
+  "date",
+  "timestamp",
+  "time",
+];
+const CSV_TEXT_COLUMNS = ["text", "body", "message", "content"];
+const CSV_TYPE_COLUMNS = ["type", "direction"];
+
+/**
+ * Parses a CSV export of messages. The header row must name a sender,
+ * date and text column; outgoing messages are skipped if there's a type
+ * column.
+ */
+export function parseMessagesCsv(csv: string): ExportedSms[] {
+  const [header, ...rows] = parseCsvRows(csv);
+  if (!header) return [];
+
+  const columns = header.map((h) => h.trim().toLowerCase());
+  const find = (names: string[]) => {
+    for (const name of names) {
+      const index = columns.indexOf(name);
+      if (index !== -1) return index;
+    }
+    return -1;
+  };
+
+  const senderCol = find(CSV_SENDER_COLUMNS);
+  const dateCol = find(CSV_DATE_COLUMNS);
+  const textCol = find(CSV_TEXT_COLUMNS);
+  const typeCol = find(CSV_TYPE_COLUMNS);
+
+  if (senderCol === -1 || dateCol === -1 || textCol === -1) {
+    throw new Error(
+      `CSV needs sender, date and text columns; found: ${header.join(", ")}`,
+    );
+  }
+
+  const messages: ExportedSms[] = [];
+  for (const row of rows) {
+    const type = typeCol === -1 ? "" : (row[typeCol] ?? "").toLowerCase();
+    if (/outgoing|sent/.test(type)) continue;
+
+    const sender = row[senderCol]?.trim();
+    const text = row[textCol]?.trim();
+    const rawDate = row[dateCol]?.trim() ?? "";
+
+    // Epoch milliseconds or seconds, or a date string: local time in
+    // TIMEZONE unless it states an offset
+    const epoch = Number(rawDate);
+    const receivedAt = rawDate && Number.isFinite(epoch)
+      ? toIsoDate(epoch < 1e12 ? epoch * 1000 : epoch)
+      : toIsoDate(rawDate);
+
+    // Without the original timestamp the import ID and date would be wrong
+    if (!sender || !text || !receivedAt) continue;
+
+    messages.push({ sender, receivedAt, text });
+  }
+
+  return messages;
+}
+
+function toIsoDate(value: string | number): string | undefined {
+  if (typeof value === "string") return parseDate(value);
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Splits CSV into rows of fields (RFC 4180: quoted fields may contain
+ * commas, doubled quotes and newlines).
+ */
+function parseCsvRows(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && csv[i + 1] === "\n") i++;
+      row.push(field);
+      if (row.some((f) => f !== "")) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some((f) => f !== "")) rows.push(row);
+  return rows;
+}
+
+if (import.meta.main) {
+  const options = parseArgs(Deno.args);
+  if (!options) {
+    console.error(USAGE);
+    Deno.exit(1);
+  }
+  await main(options);
+}
@@ -0,0 +1,209 @@
+/**
+ * ACCOUNT MAPPINGS — Sender aliases and account endings kept in the database.
+ *
+ * Rows in the account_mappings table are merged over each tenant's defaults
+ * (SENDER_TO_ACCOUNT and ACCOUNT_ENDINGS in config.ts, or their TENANTS
+ * entry), so a new bank or account is a row rather than a redeploy. A row
+ * with a null account_name removes a default. Without a database the
+ * defaults are used.
+ */
+
+import { AccountMappings } from "./config.ts";
+import { getSupabaseClient } from "./supabase.ts";
+import { Tenant } from "./tenants.ts";
+
+export type MappingKind = "sender" | "ending";
+
+// One mapping as listed by the admin API
+export interface MappingEntry {
+  kind: MappingKind;
+  key: string;
+  account_name: string | null; // Null: a removed default
+  source: "default" | "database";
+}
+
+// An account_mappings table row
+interface AccountMappingRow {
+  kind: MappingKind;
+  key: string;
+  account_name: string | null;
+}
+
+// How long mappings loaded from the database are reused
+const MAPPING_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+const cache = new Map<
+  string,
+  { mappings: AccountMappings; loadedAt: number }
+>();
+
+/**
+ * Gets a tenant's mappings: their defaults plus database rows. Cached per
+ * tenant; a database error falls back to the defaults.
+ */
+export async function loadAccountMappings(
+  tenant: Tenant,
+): Promise<AccountMappings> {
+  const cached = cache.get(tenant.id);
+  if (cached && Date.now() - cached.loadedAt < MAPPING_CACHE_TTL_MS) {
+    return cached.mappings;
+  }
+
+  let mappings = tenant.mappings;
+  try {
+    mappings = mergeMappingRows(tenant.mappings, await fetchRows(tenant));
+  } catch (err) {
+    console.error("Failed to load account mappings:", err);
+  }
+
+  cache.set(tenant.id, { mappings, loadedAt: Date.now() });
+  return mappings;
+}
+
+/**
+ * Normalizes a mapping key: senders are lowercased, endings must be the
+ * last 4 digits of an account number. Returns null if the key is invalid.
+ */
+export function normalizeMappingKey(
+  kind: MappingKind,
+  key: string,
+): string | null {
+  const trimmed = key.trim();
+  if (kind === "ending") return /^\d{4}$/.test(trimmed) ? trimmed : null;
+  return trimmed ? trimmed.toLowerCase() : null;
+}
+
+/**
+ * Lists a tenant's sender and ending mappings, defaults included, with
+ * where each comes from.
+ */
+export async function listAccountMappings(
+  tenant: Tenant,
+): Promise<MappingEntry[]> {
+  const rows = await fetchRows(tenant, true);
+  const overridden = new Set(rows.map((r) => `${r.kind}:${r.key}`));
+
+  const defaults = (kind: MappingKind, record: Record<string, string>) =>
+    Object.entries(record)
+      .filter(([key]) => !overridden.has(`${kind}:${key}`))
+      .map(([key, account_name]): MappingEntry => ({
+        kind,
+        key,
+        account_name,
+        source: "default",
+      }));
+
+  return [
+    ...defaults("sender", tenant.mappings.senders),
+    ...defaults("ending", tenant.mappings.endings),
+    ...rows.map((r): MappingEntry => ({ ...r, source: "database" })),
+  ].sort((a, b) => a.kind.localeCompare(b.kind) || a.key.localeCompare(b.key));
+}
+
+/**
+ * Adds or replaces a mapping for a tenant. `key` must already be
+ * normalized.
+ */
+export async function saveAccountMapping(
+  tenant: Tenant,
+  kind: MappingKind,
+  key: string,
+  accountName: string | null,
+): Promise<void> {
+  const db = getSupabaseClient();
+  if (!db) throw new Error("Supabase not configured");
+
+  const { error } = await db
+    .from("account_mappings")
+    .upsert({
+      tenant_id: tenant.id,
+      kind,
+      key,
+      account_name: accountName,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: "tenant_id,kind,key" });
+
+  if (error) throw new Error(`Failed to save mapping: ${error.message}`);
+  cache.delete(tenant.id);
+}
+
+/**
+ * Removes a tenant's mapping. A default can't be deleted, so it's hidden by
+ * a row without an account. Returns false if there was nothing to remove.
+ */
+export async function removeAccountMapping(
+  tenant: Tenant,
+  kind: MappingKind,
+  key: string,
+): Promise<boolean> {
+  const current = (await loadAccountMappings(tenant))[
+    kind === "sender" ? "senders" : "endings"
+  ][key];
+  if (current === undefined) return false;
+
+  const defaults = kind === "sender"
+    ? tenant.mappings.senders
+    : tenant.mappings.endings;
+  if (key in defaults) {
+    await saveAccountMapping(tenant, kind, key, null);
+    return true;
+  }
+
+  const db = getSupabaseClient();
+  if (!db) throw new Error("Supabase not configured");
+
+  const { error } = await db
+    .from("account_mappings")
+    .delete()
+    .eq("tenant_id", tenant.id)
+    .eq("kind", kind)
+    .eq("key", key);
+
+  if (error) throw new Error(`Failed to remove mapping: ${error.message}`);
+  cache.delete(tenant.id);
+  return true;
+}
+
+/**
+ * Reads a tenant's rows. Without a database there are none, unless
+ * `required` (admin calls), which then throws.
+ */
+async function fetchRows(
+  tenant: Tenant,
+  required = false,
+): Promise<AccountMappingRow[]> {
+  const db = getSupabaseClient();
+  if (!db) {
+    if (required) throw new Error("Supabase not configured");
+    return [];
+  }
+
+  const { data, error } = await db
+    .from("account_mappings")
+    .select("kind, key, account_name")
+    .eq("tenant_id", tenant.id);
+
+  if (error) throw new Error(`Failed to load mappings: ${error.message}`);
+  return (data ?? []) as AccountMappingRow[];
+}
+
+/**
+ * Applies database rows to a tenant's default mappings.
+ */
+function mergeMappingRows(
+  defaults: AccountMappings,
+  rows: AccountMappingRow[],
+): AccountMappings {
+  const merged: AccountMappings = {
+    senders: { ...defaults.senders },
+    endings: { ...defaults.endings },
+    currencies: defaults.currencies,
+  };
+
+  for (const row of rows) {
+    const record = row.kind === "sender" ? merged.senders : merged.endings;
+    if (row.account_name) record[row.key] = row.account_name;
+    else delete record[row.key];
+  }
+  return merged;
+}
@@ -0,0 +1,63 @@
+/**
+ * CONFIDENCE — Flags imports the parser wasn't sure about.
+ *
+ * The parser rates the fields it extracts from 0 to 1. The lowest rating
+ * among the fields a transaction uses decides its flag, so the review pass
+ * in YNAB can start with the risky ones:
+ *
+ *   below CONFIDENCE_RED_BELOW    (default 0.5)  red flag
+ *   below CONFIDENCE_YELLOW_BELOW (default 0.8)  yellow flag
+ *
+ * A threshold of 0 turns that colour off. CONFIDENCE_MEMO_PREFIX (e.g.
+ * "[CHECK] ") is also put in front of flagged transactions' memos.
+ */
+
+import type { ParseConfidence } from "./sms-parser.ts";
+import type { YnabFlagColor } from "./ynab.ts";
+
+const RED_BELOW = parseThreshold("CONFIDENCE_RED_BELOW", 0.5);
+const YELLOW_BELOW = parseThreshold("CONFIDENCE_YELLOW_BELOW", 0.8);
+
+export const CONFIDENCE_MEMO_PREFIX = Deno.env.get("CONFIDENCE_MEMO_PREFIX") ??
+  "";
+
+export interface ConfidenceFlag {
+  flag_color: YnabFlagColor;
+  field: keyof ParseConfidence; // The least certain field
+  confidence: number;
+}
+
+/**
+ * Picks the flag for a parse from its least certain field among `fields`.
+ * Fields without a rating are ignored; returns undefined when nothing is
+ * below a threshold.
+ */
+export function getConfidenceFlag(
+  confidence: ParseConfidence | undefined,
+  fields: (keyof ParseConfidence)[],
+): ConfidenceFlag | undefined {
+  if (!confidence) return undefined;
+
+  let lowest: { field: keyof ParseConfidence; value: number } | undefined;
+  for (const field of fields) {
+    const value = confidence[field];
+    if (value === null || value === undefined) continue;
+    if (!lowest || value < lowest.value) lowest = { field, value };
+  }
+  if (!lowest) return undefined;
+
+  const flagColor: YnabFlagColor | undefined = lowest.value < RED_BELOW
+    ? "red"
+    : lowest.value < YELLOW_BELOW
+    ? "yellow"
+    : undefined;
+
+  return flagColor
+    ? { flag_color: flagColor, field: lowest.field, confidence: lowest.value }
+    : undefined;
+}
+
+function parseThreshold(envName: string, fallback: number): number {
+  const value = Number(Deno.env.get(envName) ?? fallback);
+  return Number.isFinite(value) ? value : fallback;
+}
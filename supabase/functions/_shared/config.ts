@@ -19,16 +19,9 @@ export const SENDER_TO_ACCOUNT: Record<string, string> = {
   stanchartzm: "Stanchart Current",
 };
 
-/**
- * Account ending hints from environment variable.
- *
- * Some banks include "account ending XXXX" in SMS. This overrides sender mapping.
- * Configure via Supabase secrets to keep your account numbers private:
- *
- *   supabase secrets set ACCOUNT_ENDINGS='{"1234":"Savings Account","5678":"Current Account"}'
- */
-function parseAccountEndings(): Record<string, string> {
-  const raw = Deno.env.get("ACCOUNT_ENDINGS");
+// Reads a JSON object of strings from an environment variable
+function parseJsonRecord(envName: string): Record<string, string> {
+  const raw = Deno.env.get(envName);
   if (!raw) return {};
 
   try {
@@ -42,22 +35,87 @@ function parseAccountEndings(): Record<string, string> {
   }
 }
 
-export const ACCOUNT_ENDING_HINTS: Record<string, string> =
-  parseAccountEndings();
+/**
+ * Account ending hints from environment variable.
+ *
+ * Some banks include "account ending XXXX" in SMS. This overrides sender mapping.
+ * Configure via Supabase secrets to keep your account numbers private:
+ *
+ *   supabase secrets set ACCOUNT_ENDINGS='{"1234":"Savings Account","5678":"Current Account"}'
+ */
+export const ACCOUNT_ENDING_HINTS: Record<string, string> = parseJsonRecord(
+  "ACCOUNT_ENDINGS",
+);
+
+/**
+ * Account currencies from environment variable, keyed by YNAB account name.
+ * Accounts not listed use DEFAULT_CURRENCY (ZMW):
+ *
+ *   supabase secrets set ACCOUNT_CURRENCIES='{"Stanchart USD":"USD"}'
+ */
+export const ACCOUNT_CURRENCIES: Record<string, string> = parseJsonRecord(
+  "ACCOUNT_CURRENCIES",
+);
 
 // Fallback account for unmatched senders
 export const FALLBACK_ACCOUNT_NAME = "Unknown Imports";
 
+// Where one budget's SMS go: sender and account-ending mappings, plus the
+// currency of any non-default account
+export interface AccountMappings {
+  senders: Record<string, string>; // Lowercased sender → account name
+  endings: Record<string, string>; // Last 4 digits → account name
+  currencies: Record<string, string>; // Account name → currency code
+}
+
+// Mappings for the single-budget setup (and the default tenant)
+export const DEFAULT_ACCOUNT_MAPPINGS: AccountMappings = {
+  senders: SENDER_TO_ACCOUNT,
+  endings: ACCOUNT_ENDING_HINTS,
+  currencies: ACCOUNT_CURRENCIES,
+};
+
 /**
  * Gets the YNAB account name for a given SMS sender.
  */
-export function getAccountNameBySender(sender: string): string | undefined {
-  return SENDER_TO_ACCOUNT[sender.toLowerCase()];
+export function getAccountNameBySender(
+  sender: string,
+  mappings: AccountMappings = DEFAULT_ACCOUNT_MAPPINGS,
+): string | undefined {
+  return mappings.senders[sender.toLowerCase()];
 }
 
 /**
  * Gets the YNAB account name for a given account ending.
  */
-export function getAccountNameByEnding(ending: string): string | undefined {
-  return ACCOUNT_ENDING_HINTS[ending];
+export function getAccountNameByEnding(
+  ending: string,
+  mappings: AccountMappings = DEFAULT_ACCOUNT_MAPPINGS,
+): string | undefined {
+  return mappings.endings[ending];
+}
+
+/**
+ * Gets every YNAB account name SMS are routed to — the accounts we own and
+ * can move money between.
+ */
+export function getMappedAccountNames(
+  mappings: AccountMappings = DEFAULT_ACCOUNT_MAPPINGS,
+): string[] {
+  return [
+    ...new Set([
+      ...Object.values(mappings.senders),
+      ...Object.values(mappings.endings),
+    ]),
+  ];
+}
+
+/**
+ * Gets the declared currency code for a YNAB account, if any.
+ */
+export function getAccountCurrency(
+  accountName: string,
+  mappings: AccountMappings = DEFAULT_ACCOUNT_MAPPINGS,
+): string | undefined {
+  return mappings.currencies[accountName]?.toUpperCase();
 }
@@ -0,0 +1,97 @@
+/**
+ * CURRENCY — Converts SMS amounts into the currency of their YNAB account.
+ *
+ * Most accounts are in ZMW, but USD accounts and card purchases abroad
+ * produce SMS in other currencies. Rates come from exchange-rates.json and
+ * can be overridden or extended without a redeploy:
+ *
+ *   supabase secrets set EXCHANGE_RATES='{"USD": 26.1, "EUR": 30.2}'
+ *
+ * Rates are units of the base currency (ZMW) per 1 unit of the currency.
+ */
+
+import rateFile from "./exchange-rates.json" with { type: "json" };
+
+// Currency of accounts that don't declare one
+export const DEFAULT_CURRENCY =
+  Deno.env.get("DEFAULT_CURRENCY")?.toUpperCase() || "ZMW";
+
+const BASE_CURRENCY = rateFile.base;
+const RATE_OVERRIDES = parseRateOverrides();
+const RATES: Record<string, number> = { ...rateFile.rates, ...RATE_OVERRIDES };
+
+// Other spellings providers use for a currency
+const CURRENCY_ALIASES: Record<string, string> = {
+  K: "ZMW",
+  ZMK: "ZMW",
+  KWACHA: "ZMW",
+  $: "USD",
+  US$: "USD",
+  "€": "EUR",
+  "£": "GBP",
+  R: "ZAR",
+};
+
+export interface Conversion {
+  amount: number; // In the target currency, rounded to 2 decimals
+  rate: number; // Target units per 1 source unit
+  rate_source: string; // "EXCHANGE_RATES" or the rates file's as_of date
+}
+
+/**
+ * Normalizes a currency code or symbol to ISO 4217 (e.g. "K" → "ZMW").
+ */
+export function normalizeCurrency(
+  code: string | null | undefined,
+): string | null {
+  if (!code) return null;
+  const upper = code.trim().toUpperCase();
+  if (!upper) return null;
+  return CURRENCY_ALIASES[upper] ?? upper;
+}
+
+/**
+ * Converts an amount between currencies via the base currency.
+ * Returns null if a rate is missing.
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+): Conversion | null {
+  const fromRate = from === BASE_CURRENCY ? 1 : RATES[from];
+  const toRate = to === BASE_CURRENCY ? 1 : RATES[to];
+  if (!fromRate || !toRate) return null;
+
+  const rate = fromRate / toRate;
+  return {
+    amount: Math.round(amount * rate * 100) / 100,
+    rate: Math.round(rate * 1e6) / 1e6,
+    rate_source: from in RATE_OVERRIDES || to in RATE_OVERRIDES
+      ? "EXCHANGE_RATES"
+      : rateFile.as_of,
+  };
+}
+
+function parseRateOverrides(): Record<string, number> {
+  const raw = Deno.env.get("EXCHANGE_RATES");
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (typeof parsed !== "object" || parsed === null) return {};
+
+    const rates: Record<string, number> = {};
+    for (const [code, rate] of Object.entries(parsed)) {
+      if (typeof rate === "number" && rate > 0) {
+        rates[code.toUpperCase()] = rate;
+      }
+    }
+    return rates;
+  } catch {
+    console.error(
+      "EXCHANGE_RATES is not valid JSON — using exchange-rates.json",
+    );
+    return {};
+  }
+}
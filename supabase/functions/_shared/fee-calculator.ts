@@ -1,21 +1,36 @@
 /**
  * FEE CALCULATOR — Calculate transaction fees for mobile money & banks
  *
- * Fees vary by provider and transfer type. Configure your fee schedules below.
+ * Fees vary by provider, transfer type and date. Fee schedules are data:
+ * the defaults live in fee-schedules.json, and rows in the fee_schedules
+ * table add new versions (or replace a default version with the same
+ * effective_from) without a redeploy.
+ *
+ * Every schedule version has an effective_from date, and a transaction uses
+ * the version in force on its date — so backfilled SMS get the fees of
+ * their time.
  *
  * Fee data sources:
  * - https://077.airtel.co.zm/assets/pdf/AIRTEL-Tariff-Guide-Poster-A1.pdf
  * - https://www.absa.co.zm/personal/ultimate-plus-account/
  *
- * Last updated: January 2025
  * Note: Airtel fees increased due to Mobile Money Transaction Levy Act 2024
  *       (effective Jan 1, 2025). Fees verified via actual transactions.
  */
 
+import defaultScheduleData from "./fee-schedules.json" with { type: "json" };
+import { getSupabaseClient } from "./supabase.ts";
+
 // Fee category from environment variable
 const FEE_CATEGORY_NAME: string | null = Deno.env.get("FEE_CATEGORY_NAME") ||
     null;
 
+// Currency all fee schedules are written in
+export const FEE_SCHEDULE_CURRENCY = "ZMW";
+
+// How long schedules loaded from the database are reused
+const SCHEDULE_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
 // Types
 interface FeeTier {
     min: number;
@@ -23,10 +38,40 @@ interface FeeTier {
     fee: number;
 }
 
-interface FeeSchedule {
+// One version of a fee schedule
+interface FeeScheduleVersion {
+    effective_from: string; // YYYY-MM-DD
+    payee: string;
     tiers: FeeTier[];
+    note?: string;
+}
+
+// One version of a per-SMS alert fee
+interface SmsNotificationFeeVersion {
+    effective_from: string; // YYYY-MM-DD
     payee: string;
-    category: string | null;
+    fee: number;
+    note?: string;
+}
+
+// Shape of fee-schedules.json; versions are kept sorted by effective_from
+interface FeeScheduleData {
+    transfer_fees: Partial<
+        Record<Provider, Partial<Record<TransferType, FeeScheduleVersion[]>>>
+    >;
+    sms_notification_fees: Partial<
+        Record<Provider, SmsNotificationFeeVersion[]>
+    >;
+}
+
+// A fee_schedules table row; "sms_notification" rows use `fee`, not tiers
+interface FeeScheduleRow {
+    provider: Provider;
+    transfer_type: TransferType | "sms_notification";
+    effective_from: string;
+    payee: string;
+    tiers: FeeTier[] | null;
+    fee: number | null;
 }
 
 export type TransferType =
@@ -54,166 +99,80 @@ export interface FeeResult {
     payee: string | null;
     category: string | null;
     configured: boolean;
+    effective_from?: string; // Schedule version used
 }
 
-// Fee schedules by provider and transfer type
-const FEE_CONFIG: Record<Provider, Partial<Record<TransferType, FeeSchedule>>> =
-    {
-        // AIRTEL MONEY — Updated January 2025 (Mobile Money Levy Act 2024)
-        // Fees verified via actual transactions
-        airtel: {
-            same_network: {
-                payee: "Airtel",
-                category: FEE_CATEGORY_NAME,
-                tiers: [
-                    { min: 0, max: 150, fee: 0.74 }, // Was 0.58
-                    { min: 150, max: 300, fee: 1.3 }, // Was 1.10
-                    { min: 300, max: 500, fee: 1.6 }, // Was 1.20
-                    { min: 500, max: 1000, fee: 3.0 }, // Was 2.00
-                    { min: 1000, max: 3000, fee: 6.0 }, // Was 3.60
-                    { min: 3000, max: 5000, fee: 10.5 }, // Was 5.00
-                    { min: 5000, max: 10000, fee: 12.0 }, // Was 7.00
-                ],
-            },
-            cross_network: {
-                payee: "Airtel",
-                category: FEE_CATEGORY_NAME,
-                tiers: [],
-            },
-            to_bank: {
-                payee: "Airtel",
-                category: FEE_CATEGORY_NAME,
-                tiers: [],
-            },
-            withdrawal: {
-                payee: "Airtel",
-                category: FEE_CATEGORY_NAME,
-                tiers: [],
-            },
-            airtime: {
-                payee: "Airtel",
-                category: FEE_CATEGORY_NAME,
-                tiers: [],
-            },
-            bill_payment: {
-                payee: "Airtel",
-                category: FEE_CATEGORY_NAME,
-                // Flat fee for bill/till payments (e.g., NHIMA health insurance)
-                // Verified: K120 payment → K1.20 fee
-                tiers: [{ min: 0, max: 1000000, fee: 1.2 }],
-            },
-        },
-
-        // MTN MONEY
-        mtn: {
-            same_network: {
-                payee: "MTN",
-                category: FEE_CATEGORY_NAME,
-                tiers: [
-                    { min: 0, max: 150, fee: 0.58 },
-                    { min: 150, max: 300, fee: 1.1 },
-                    { min: 300, max: 500, fee: 1.2 },
-                    { min: 500, max: 1000, fee: 2.0 },
-                    { min: 1000, max: 3000, fee: 3.8 },
-                    { min: 3000, max: 5000, fee: 5.0 },
-                    { min: 5000, max: 10000, fee: 7.0 },
-                ],
-            },
-        },
-
-        // ZAMTEL MONEY
-        zamtel: {
-            same_network: {
-                payee: "Zamtel",
-                category: FEE_CATEGORY_NAME,
-                tiers: [],
-            },
-        },
-
-        // ABSA BANK (Ultimate Plus Account - adjust for your account type)
-        absa: {
-            to_mobile: {
-                payee: "Absa Bank",
-                category: FEE_CATEGORY_NAME,
-                tiers: [{ min: 0, max: 1000000, fee: 10.0 }],
-            },
-            withdrawal: {
-                payee: "Absa Bank",
-                category: FEE_CATEGORY_NAME,
-                // ATM withdrawal fee — detected via "Debit Card transaction" SMS
-                tiers: [{ min: 0, max: 1000000, fee: 20.0 }],
-            },
-            pos: {
-                payee: "Absa Bank",
-                category: FEE_CATEGORY_NAME,
-                // POS purchases — detected via "at POS" SMS, typically no fee
-                tiers: [],
-            },
-            bill_payment: {
-                payee: "Absa Bank",
-                category: FEE_CATEGORY_NAME,
-                tiers: [],
-            },
-        },
-
-        // STANDARD CHARTERED
-        stanchart: {},
-
-        // Unknown provider
-        unknown: {},
-    };
+// Fee schedules in use: the defaults plus any database versions
+let schedules: FeeScheduleData = sortVersions(
+    structuredClone(defaultScheduleData as FeeScheduleData),
+);
+let schedulesLoadedAt = 0;
 
-// SMS notification fees (per SMS alert)
-interface SmsNotificationFee {
-    fee: number;
-    payee: string;
-    category: string | null;
-}
+/**
+ * Loads fee schedule versions from the fee_schedules table on top of the
+ * defaults. Cached; without a database the defaults are used.
+ */
+export async function loadFeeSchedules(): Promise<void> {
+    if (Date.now() - schedulesLoadedAt < SCHEDULE_CACHE_TTL_MS) return;
+    schedulesLoadedAt = Date.now();
+
+    const db = getSupabaseClient();
+    if (!db) return;
 
-const SMS_NOTIFICATION_FEES: Partial<Record<Provider, SmsNotificationFee>> = {
-    absa: { fee: 0.5, payee: "Absa Bank", category: FEE_CATEGORY_NAME },
-};
+    try {
+        const { data, error } = await db
+            .from("fee_schedules")
+            .select(
+                "provider, transfer_type, effective_from, payee, tiers, fee",
+            );
+
+        if (error) {
+            console.error("Failed to load fee schedules:", error.message);
+            return;
+        }
+
+        schedules = mergeScheduleRows(
+            defaultScheduleData as FeeScheduleData,
+            data as FeeScheduleRow[],
+        );
+    } catch (err) {
+        console.error("Failed to load fee schedules:", err);
+    }
+}
 
 /**
- * Calculates the transaction fee for a given transfer.
+ * Calculates the transaction fee for a given transfer, using the schedule
+ * in force on `date` (YYYY-MM-DD, default today).
  */
 export function calculateFee(
     provider: Provider,
     transferType: TransferType,
     amount: number,
+    date: string = today(),
 ): FeeResult {
-    const schedule = FEE_CONFIG[provider]?.[transferType];
+    const schedule = versionOn(
+        schedules.transfer_fees[provider]?.[transferType],
+        date,
+    );
 
     if (!schedule) {
         return { fee: null, payee: null, category: null, configured: false };
     }
 
+    const base = {
+        payee: schedule.payee,
+        category: FEE_CATEGORY_NAME,
+        configured: true,
+        effective_from: schedule.effective_from,
+    };
+
     if (schedule.tiers.length === 0) {
-        return {
-            fee: 0,
-            payee: schedule.payee,
-            category: schedule.category,
-            configured: true,
-        };
+        return { fee: 0, ...base };
     }
 
     const tier = schedule.tiers.find((t) => amount > t.min && amount <= t.max);
 
-    if (!tier) {
-        return {
-            fee: null,
-            payee: schedule.payee,
-            category: schedule.category,
-            configured: true,
-        };
-    }
-
-    return {
-        fee: tier.fee,
-        payee: schedule.payee,
-        category: schedule.category,
-        configured: true,
-    };
+    return { fee: tier ? tier.fee : null, ...base };
 }
 
 /**
@@ -232,27 +191,135 @@ export function senderToProvider(sender: string): Provider {
 }
 
 /**
- * Checks if fees are configured for a provider/transfer type.
+ * Checks if fees are configured for a provider/transfer type on a date.
  */
 export function hasFeesConfigured(
     provider: Provider,
     transferType: TransferType,
+    date: string = today(),
 ): boolean {
-    return FEE_CONFIG[provider]?.[transferType] !== undefined;
+    return versionOn(
+        schedules.transfer_fees[provider]?.[transferType],
+        date,
+    ) !== undefined;
 }
 
 /**
- * Gets the SMS notification fee for a provider.
+ * Gets the SMS notification fee for a provider on a date.
  */
-export function getSmsNotificationFee(provider: Provider): FeeResult {
-    const config = SMS_NOTIFICATION_FEES[provider];
+export function getSmsNotificationFee(
+    provider: Provider,
+    date: string = today(),
+): FeeResult {
+    const config = versionOn(schedules.sms_notification_fees[provider], date);
     if (!config) {
         return { fee: null, payee: null, category: null, configured: false };
     }
     return {
         fee: config.fee,
         payee: config.payee,
-        category: config.category,
+        category: FEE_CATEGORY_NAME,
         configured: true,
+        effective_from: config.effective_from,
+    };
+}
+
+/**
+ * Gets the payee and category a provider's fees are recorded under, for
+ * fees that don't come from a schedule (e.g. stated in the SMS).
+ */
+export function getFeeRecipient(
+    provider: Provider,
+): Pick<FeeResult, "payee" | "category"> {
+    const versions = [
+        ...Object.values(schedules.transfer_fees[provider] ?? {}).flat(),
+        ...(schedules.sms_notification_fees[provider] ?? []),
+    ];
+    return {
+        payee: versions.find((v) => v?.payee)?.payee ?? null,
+        category: FEE_CATEGORY_NAME,
+    };
+}
+
+/**
+ * Picks the version with the latest effective_from on or before `date`.
+ */
+function versionOn<T extends { effective_from: string }>(
+    versions: T[] | undefined,
+    date: string,
+): T | undefined {
+    let current: T | undefined;
+    for (const version of versions ?? []) {
+        if (version.effective_from > date) break;
+        current = version;
+    }
+    return current;
+}
+
+/**
+ * Adds database rows to the default schedules. A row with the same
+ * provider, transfer type and effective_from replaces the default version.
+ */
+function mergeScheduleRows(
+    defaults: FeeScheduleData,
+    rows: FeeScheduleRow[],
+): FeeScheduleData {
+    const merged: FeeScheduleData = structuredClone(defaults);
+
+    const upsert = <T extends { effective_from: string }>(
+        versions: T[],
+        version: T,
+    ) => {
+        const index = versions.findIndex((v) =>
+            v.effective_from === version.effective_from
+        );
+        if (index === -1) versions.push(version);
+        else versions[index] = version;
     };
+
+    for (const row of rows) {
+        const effectiveFrom = row.effective_from.slice(0, 10);
+
+        if (row.transfer_type === "sms_notification") {
+            if (row.fee === null) continue;
+            const versions = merged.sms_notification_fees[row.provider] ??= [];
+            upsert(versions, {
+                effective_from: effectiveFrom,
+                payee: row.payee,
+                fee: Number(row.fee),
+            });
+            continue;
+        }
+
+        const byType = merged.transfer_fees[row.provider] ??= {};
+        const versions = byType[row.transfer_type] ??= [];
+        upsert(versions, {
+            effective_from: effectiveFrom,
+            payee: row.payee,
+            tiers: row.tiers ?? [],
+        });
+    }
+
+    return sortVersions(merged);
+}
+
+function sortVersions(data: FeeScheduleData): FeeScheduleData {
+    const byDate = (
+        a: { effective_from: string },
+        b: { effective_from: string },
+    ) => a.effective_from.localeCompare(b.effective_from);
+
+    for (const byType of Object.values(data.transfer_fees)) {
+        for (const versions of Object.values(byType ?? {})) {
+            versions?.sort(byDate);
+        }
+    }
+    for (const versions of Object.values(data.sms_notification_fees)) {
+        versions?.sort(byDate);
+    }
+    return data;
+}
+
+function today(): string {
+    return new Date().toISOString().slice(0, 10);
 }
@@ -0,0 +1,128 @@
+/**
+ * FOLLOW-UP MATCHING — Recognizes the "posted" SMS for a pending card
+ * transaction.
+ *
+ * Some banks send an SMS when a card payment is authorised and another
+ * when it's posted, sometimes for a different amount (FX, tips). The first
+ * is imported uncleared; the second then updates it — amount, date and
+ * cleared status — instead of adding a second transaction.
+ *
+ * A posted SMS is the follow-up of a pending transaction in the same
+ * account, in the same direction, a few days earlier, within an amount
+ * window, and with the same reference or, failing that, the same payee.
+ *
+ * The posted SMS's own import ID never reaches YNAB, so a redelivery of it
+ * is recognized through the ingestion log instead.
+ */
+
+import { addDays, daysBetween } from "./parsers.ts";
+import type { GeminiParsedSms } from "./sms-parser.ts";
+import { getSupabaseClient } from "./supabase.ts";
+
+// Set FOLLOW_UP_MATCHING=off to import posted SMS as new transactions
+export const followUpMatchingEnabled =
+  Deno.env.get("FOLLOW_UP_MATCHING") !== "off";
+
+// Max days from the pending transaction to the posted one
+const FOLLOW_UP_WINDOW_DAYS = Number(
+  Deno.env.get("FOLLOW_UP_WINDOW_DAYS") ?? 7,
+);
+
+// How far the posted amount may be from the pending one, as a share of it
+const FOLLOW_UP_AMOUNT_TOLERANCE = Number(
+  Deno.env.get("FOLLOW_UP_AMOUNT_TOLERANCE") ?? 0.2,
+);
+
+// The sms_ingestions columns read for a settled follow-up
+interface SettledIngestionRow {
+  import_id: string;
+  transaction_id: string;
+}
+
+// A pending or posted transaction, in YNAB terms
+export interface FollowUpSide {
+  accountId: string;
+  date: string; // YYYY-MM-DD
+  amount: number; // Milliunits, negative for outflows
+  payeeId?: string | null;
+  payeeName?: string | null; // For payees YNAB doesn't have yet
+  ref?: string | null; // transaction_ref, when known
+  memo?: string | null; // Memos carry "Ref: <ref>"
+}
+
+/**
+ * Checks whether a parsed SMS could settle an earlier pending transaction.
+ */
+export function canBeFollowUp(parsed: GeminiParsedSms): boolean {
+  return !parsed.is_pending && !parsed.is_reversal;
+}
+
+/**
+ * Checks whether `posted` is the follow-up of the `pending` transaction.
+ */
+export function isFollowUpOf(
+  posted: FollowUpSide,
+  pending: FollowUpSide,
+): boolean {
+  if (posted.accountId !== pending.accountId) return false;
+  if (Math.sign(posted.amount) !== Math.sign(pending.amount)) return false;
+  if (posted.date < pending.date) return false;
+  if (daysBetween(posted.date, pending.date) > FOLLOW_UP_WINDOW_DAYS) {
+    return false;
+  }
+
+  const difference = Math.abs(posted.amount - pending.amount);
+  if (difference > Math.abs(pending.amount) * FOLLOW_UP_AMOUNT_TOLERANCE) {
+    return false;
+  }
+
+  const sameRef = !!posted.ref &&
+    (pending.ref === posted.ref || !!pending.memo?.includes(posted.ref));
+  const samePayee = posted.payeeId
+    ? posted.payeeId === pending.payeeId
+    : !!posted.payeeName &&
+      posted.payeeName.toLowerCase() === pending.payeeName?.toLowerCase();
+  return sameRef || samePayee;
+}
+
+/**
+ * Finds which posted SMS, by import ID, already settled a pending
+ * transaction: a redelivered SMS must not be imported again. Returns the
+ * settled transaction's ID per import ID. Never throws: a failed lookup is
+ * logged and treated as none settled.
+ */
+export async function findSettledFollowUps(
+  tenantId: string,
+  importIds: string[],
+): Promise<Map<string, string>> {
+  const settled = new Map<string, string>();
+  const db = getSupabaseClient();
+  if (!db || importIds.length === 0) return settled;
+
+  try {
+    const { data, error } = await db
+      .from("sms_ingestions")
+      .select("import_id, transaction_id")
+      .eq("tenant_id", tenantId)
+      .eq("status", "sent")
+      .in("import_id", importIds)
+      .not("result->follow_up", "is", null)
+      .not("transaction_id", "is", null);
+
+    if (error) throw new Error(error.message);
+
+    for (const row of (data ?? []) as SettledIngestionRow[]) {
+      settled.set(row.import_id, row.transaction_id);
+    }
+  } catch (err) {
+    console.error("Failed to look up settled follow-ups:", err);
+  }
+  return settled;
+}
+
+/**
+ * Earliest date a pending transaction followed up on `date` can have.
+ */
+export function followUpWindowStart(date: string): string {
+  return addDays(date, -FOLLOW_UP_WINDOW_DAYS);
+}
@@ -0,0 +1,207 @@
+/**
+ * IMPORT IDS — Names SMS transactions so YNAB drops the ones it already has.
+ *
+ * YNAB ignores a transaction whose import_id it has seen in the account
+ * before. The ID has to be the same every time the same transaction comes
+ * in — resent, reworded, or received at a different time — per
+ * IMPORT_ID_SCHEME:
+ *
+ *   IMPORT_ID_SCHEME=ref   (default) A hash of the account and the
+ *                          provider's transaction_ref, when the SMS has one;
+ *                          otherwise the hash scheme
+ *   IMPORT_ID_SCHEME=hash  A hash of sender, timestamp, amount and text
+ *   IMPORT_ID_SCHEME=ynab  YNAB:amount:date:occurrence, the format of
+ *                          YNAB's own file and linked imports, so an SMS
+ *                          and the bank's import of the same transaction
+ *                          are one transaction
+ *
+ * Switching scheme changes the IDs of SMS already imported: replaying them
+ * (a backfill, the retry queue) then creates duplicates. Deployments from
+ * before the setting used hash.
+ *
+ * Fee, notification-fee and adjustment rows take the SMS's ID with their
+ * own prefix.
+ */
+
+export type ImportIdScheme = "ref" | "hash" | "ynab";
+
+export const importIdScheme: ImportIdScheme = parseImportIdScheme(
+  Deno.env.get("IMPORT_ID_SCHEME"),
+);
+
+// The rows posted alongside an SMS's transaction: transfer fee, estimated
+// (placeholder) fee, SMS notification fee and balance adjustment
+export type DerivedImportIdKind = "fee" | "plt" | "ntf" | "rec";
+
+// Prefix of the import IDs made here; YNAB-scheme IDs keep YNAB's own
+const SMS_PREFIX = "sms:";
+const YNAB_PREFIX = "YNAB:";
+
+// Kinds whose rows are fees of the SMS's transaction
+const FEE_KINDS: DerivedImportIdKind[] = ["fee", "plt", "ntf"];
+
+// YNAB rejects longer import IDs
+const MAX_IMPORT_ID_LENGTH = 36;
+
+// What an SMS memo says about its transaction: "Ref: <ref>" and "| HH:MM"
+const MEMO_REF_PATTERN = /\bRef:\s*([A-Z0-9][A-Z0-9.\-]*)/i;
+const MEMO_TIME_PATTERN = /\|\s*(\d{1,2}:\d{2})\s*(?:\||$)/;
+
+// A transaction already in the account
+export interface ExistingImport {
+  import_id?: string | null;
+  memo?: string | null;
+}
+
+// The SMS transaction a YNAB-format import ID is picked for
+export interface YnabImportIdSms {
+  amount: number; // Milliunits
+  date: string; // YYYY-MM-DD
+  ref?: string | null; // transaction_ref
+  memo?: string | null;
+}
+
+/**
+ * Creates a deterministic import ID for YNAB deduplication.
+ *
+ * With a transaction_ref (and the ref or ynab scheme) it hashes the
+ * account, ref and SMS amount, so the same transaction always gets the
+ * same ID however its SMS is worded or when it arrives. A pending SMS gets
+ * a different ID from its posted one, which settles it instead.
+ *
+ * Otherwise it hashes sender + full timestamp + amount + SMS text. Using
+ * full timestamp allows same-amount transactions at different times to be
+ * distinct, while deduplicating identical SMS.
+ *
+ * In the ynab scheme this is only the key for spotting duplicates within a
+ * batch: see makeYnabImportId.
+ */
+export async function makeImportId(input: {
+  sender: string;
+  date: string;
+  amountMilli: number;
+  text: string;
+  accountId: string;
+  ref?: string | null;
+  pending?: boolean;
+}): Promise<string> {
+  const raw = input.ref && importIdScheme !== "hash"
+    ? `ref|${input.accountId}|${input.ref}|${input.amountMilli}${
+      input.pending ? "|pending" : ""
+    }`
+    : `${input.sender}|${input.date}|${input.amountMilli}|${input.text}`;
+
+  const encoder = new TextEncoder();
+  const hash = await crypto.subtle.digest("SHA-256", encoder.encode(raw));
+
+  const hex = Array.from(new Uint8Array(hash))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+
+  return `${SMS_PREFIX}${hex.slice(0, 32)}`;
+}
+
+/**
+ * Creates a YNAB-format import ID. `occurrence` counts transactions of the
+ * same amount on the same day in the account, from 1: see pickYnabImportId.
+ */
+export function makeYnabImportId(
+  amountMilli: number,
+  date: string,
+  occurrence: number,
+): string {
+  return `${YNAB_PREFIX}${amountMilli}:${date}:${occurrence}`;
+}
+
+/**
+ * Picks the YNAB-format import ID of an SMS transaction from the account's
+ * transactions of that amount and day, in order of preference:
+ *
+ *   1. The one this SMS imported before, found by its Ref or, without
+ *      one, its memo time: a redelivered SMS keeps its ID and YNAB skips it
+ *   2. The first not imported from an SMS (no Ref or time in its memo):
+ *      most likely the bank's own import of this transaction
+ *   3. The next occurrence after all of them
+ *
+ * `taken` holds the IDs picked earlier in the batch and gets this one.
+ */
+export function pickYnabImportId(
+  sms: YnabImportIdSms,
+  existing: ExistingImport[],
+  taken: Set<string>,
+): string {
+  const prefix = makeYnabImportId(sms.amount, sms.date, 0).slice(0, -1);
+  const sameDay = existing.filter((t) => t.import_id?.startsWith(prefix));
+  const occurrence = (id: string) => Number(id.slice(prefix.length)) || 0;
+
+  const ref = sms.ref?.toLowerCase();
+  const time = memoTime(sms.memo);
+  const own = sameDay.find((t) => {
+    const rowRef = memoRef(t.memo);
+    return ref
+      ? rowRef === ref
+      : !rowRef && !!time && memoTime(t.memo) === time;
+  });
+  const unclaimed = sameDay
+    .filter((t) =>
+      !taken.has(t.import_id!) && !memoRef(t.memo) && !memoTime(t.memo)
+    )
+    .sort((a, b) => occurrence(a.import_id!) - occurrence(b.import_id!));
+
+  const picked = own?.import_id ?? unclaimed[0]?.import_id ??
+    makeYnabImportId(
+      sms.amount,
+      sms.date,
+      Math.max(
+        0,
+        ...sameDay.map((t) => occurrence(t.import_id!)),
+        ...[...taken].filter((id) => id.startsWith(prefix)).map(occurrence),
+      ) + 1,
+    );
+  taken.add(picked);
+  return picked;
+}
+
+/**
+ * The import ID of a row posted alongside an SMS's transaction.
+ */
+export function deriveImportId(
+  importId: string,
+  kind: DerivedImportIdKind,
+): string {
+  const base = importId.startsWith(SMS_PREFIX)
+    ? importId.slice(SMS_PREFIX.length)
+    : importId;
+  return `${kind}:${base}`.slice(0, MAX_IMPORT_ID_LENGTH);
+}
+
+/**
+ * Checks whether an import ID is an SMS transaction's own. In the ynab
+ * scheme that includes YNAB's file and linked imports: they share a format.
+ */
+export function isSmsImportId(importId?: string | null): boolean {
+  if (!importId) return false;
+  return importId.startsWith(SMS_PREFIX) ||
+    (importIdScheme === "ynab" && importId.startsWith(YNAB_PREFIX));
+}
+
+/**
+ * Checks whether an import ID is of a fee row posted alongside an SMS's
+ * transaction.
+ */
+export function isFeeImportId(importId?: string | null): boolean {
+  if (!importId) return false;
+  return FEE_KINDS.some((kind) => importId.startsWith(`${kind}:`));
+}
+
+function memoRef(memo?: string | null): string | undefined {
+  return memo?.match(MEMO_REF_PATTERN)?.[1].toLowerCase();
+}
+
+function memoTime(memo?: string | null): string | undefined {
+  return memo?.match(MEMO_TIME_PATTERN)?.[1].padStart(5, "0");
+}
+
+function parseImportIdScheme(value?: string): ImportIdScheme {
+  return value === "hash" || value === "ynab" ? value : "ref";
+}
@@ -0,0 +1,287 @@
+/**
+ * INBOUND — Normalizes SMS from different senders into one payload shape.
+ *
+ * The iOS Shortcut posts `{ source, sender, receivedAt, text }`. Other
+ * phones forward SMS in their own formats, so each supported format has an
+ * adapter that converts it to the Shortcut shape before processing:
+ *
+ *   ios_shortcut   { source, sender, receivedAt | received_at, text }
+ *   sms_forwarder  SMS Forwarder (Android): { from, text, receivedStamp, ... }
+ *   sms_gateway    SMS Gateway for Android: { event, payload: { phoneNumber, message, receivedAt } }
+ *   tasker         Tasker HTTP Post: { sender | from, body | text, timestamp | date }
+ *   twilio         Twilio inbound SMS webhook (form-encoded From, Body),
+ *                  authenticated by its X-Twilio-Signature header
+ *
+ * The adapter is picked by the payload's `source` field when it names one,
+ * otherwise by the shape of the request.
+ */
+
+// Payload from iOS Shortcuts — the internal shape every adapter produces
+export interface IncomingPayload {
+  source?: string;
+  text?: unknown;
+  received_at?: string;
+  receivedAt?: string;
+  sender?: string;
+}
+
+export type InboundAdapter =
+  | "ios_shortcut"
+  | "sms_forwarder"
+  | "sms_gateway"
+  | "tasker"
+  | "twilio";
+
+export type InboundResult =
+  | {
+    ok: true;
+    adapter: InboundAdapter;
+    payload: IncomingPayload;
+    raw: unknown; // Body as received, for the ingestion log
+  }
+  | { ok: false; status: number; error: string };
+
+type JsonObject = Record<string, unknown>;
+
+const twilioAuthToken = Deno.env.get("TWILIO_AUTH_TOKEN");
+// Public URL Twilio posts to; needed when the function sits behind a proxy
+const twilioWebhookUrl = Deno.env.get("TWILIO_WEBHOOK_URL");
+
+/**
+ * Checks whether a request comes from Twilio (and so carries a signature
+ * instead of the webhook secret).
+ */
+export function isTwilioRequest(req: Request): boolean {
+  return req.headers.has("x-twilio-signature");
+}
+
+/**
+ * Reads a single inbound SMS from a request, in any supported format.
+ */
+export async function readInboundSms(req: Request): Promise<InboundResult> {
+  const contentType = req.headers.get("content-type") ?? "";
+
+  // A Twilio signature header always means the signature must be checked
+  if (
+    isTwilioRequest(req) ||
+    contentType.includes("application/x-www-form-urlencoded")
+  ) {
+    return await readTwilioSms(req);
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return { ok: false, status: 400, error: "Invalid JSON" };
+  }
+
+  const normalized = normalizePayload(body);
+  if (!normalized) {
+    return { ok: false, status: 400, error: "Unrecognized SMS payload" };
+  }
+
+  return { ok: true, ...normalized, raw: body };
+}
+
+/**
+ * Converts a JSON body from any supported sender into the internal payload.
+ * Returns null if the shape isn't recognized.
+ */
+export function normalizePayload(
+  body: unknown,
+): { adapter: InboundAdapter; payload: IncomingPayload } | null {
+  if (!isObject(body)) return null;
+
+  const source = typeof body.source === "string" ? body.source : undefined;
+  const adapter = isInboundAdapter(source) ? source : detectAdapter(body);
+
+  switch (adapter) {
+    case "sms_forwarder":
+      return { adapter, payload: fromSmsForwarder(body) };
+    case "sms_gateway":
+      return { adapter, payload: fromSmsGateway(body) };
+    case "tasker":
+      return { adapter, payload: fromTasker(body) };
+    case "twilio":
+      return { adapter, payload: fromTwilio(body) };
+    default:
+      return { adapter: "ios_shortcut", payload: body as IncomingPayload };
+  }
+}
+
+function detectAdapter(body: JsonObject): InboundAdapter {
+  if (isObject(body.payload) && typeof body.event === "string") {
+    return "sms_gateway";
+  }
+  if (typeof body.From === "string" && typeof body.Body === "string") {
+    return "twilio";
+  }
+  if ("receivedStamp" in body || "sentStamp" in body) return "sms_forwarder";
+  if (!("text" in body) && "body" in body) return "tasker";
+  return "ios_shortcut";
+}
+
+// SMS Forwarder default template:
+// {"from":"%from%","text":"%text%","sentStamp":%sentStamp%,"receivedStamp":%receivedStamp%,"sim":"%sim%"}
+function fromSmsForwarder(body: JsonObject): IncomingPayload {
+  return {
+    source: "sms_forwarder",
+    sender: asString(body.from) ?? asString(body.sender),
+    text: asString(body.text) ?? asString(body.message) ?? "",
+    receivedAt: toIsoTimestamp(body.receivedStamp ?? body.sentStamp),
+  };
+}
+
+// SMS Gateway for Android webhook (event "sms:received")
+function fromSmsGateway(body: JsonObject): IncomingPayload {
+  const payload = body.payload as JsonObject;
+  return {
+    source: "sms_gateway",
+    sender: asString(payload.phoneNumber) ?? asString(payload.sender),
+    text: asString(payload.message) ?? asString(payload.text) ?? "",
+    receivedAt: toIsoTimestamp(payload.receivedAt),
+  };
+}
+
+// Tasker: variables are user-mapped, so accept the usual names.
+// Recommended body: {"source":"tasker","sender":"%SMSRF","body":"%SMSRB","timestamp":"%TIMES"}
+function fromTasker(body: JsonObject): IncomingPayload {
+  return {
+    source: "tasker",
+    sender: asString(body.sender) ?? asString(body.from),
+    text: asString(body.body) ?? asString(body.text) ?? "",
+    receivedAt: toIsoTimestamp(
+      body.timestamp ?? body.receivedAt ?? body.received_at ??
+        joinDateTime(body.date, body.time),
+    ),
+  };
+}
+
+// Twilio has no message timestamp: the SMS is dated on arrival
+function fromTwilio(body: JsonObject): IncomingPayload {
+  return {
+    source: "twilio",
+    sender: asString(body.From),
+    text: asString(body.Body) ?? "",
+  };
+}
+
+/**
+ * Reads a form-encoded Twilio webhook and validates its signature.
+ */
+async function readTwilioSms(req: Request): Promise<InboundResult> {
+  const params = Object.fromEntries(new URLSearchParams(await req.text()));
+
+  if (!twilioAuthToken) {
+    return {
+      ok: false,
+      status: 401,
+      error: "TWILIO_AUTH_TOKEN not configured",
+    };
+  }
+
+  const signature = req.headers.get("x-twilio-signature") ?? "";
+  if (!(await isValidTwilioSignature(signedUrl(req), params, signature))) {
+    return { ok: false, status: 401, error: "Invalid Twilio signature" };
+  }
+
+  if (!params.From || params.Body === undefined) {
+    return { ok: false, status: 400, error: "Missing From or Body" };
+  }
+
+  return {
+    ok: true,
+    adapter: "twilio",
+    payload: fromTwilio(params),
+    raw: params,
+  };
+}
+
+/**
+ * The URL Twilio signed. TWILIO_WEBHOOK_URL takes this request's query
+ * string, so a signed request replayed with another ?tenant= fails.
+ */
+function signedUrl(req: Request): string {
+  if (!twilioWebhookUrl) return req.url;
+
+  const { search } = new URL(req.url);
+  return search ? twilioWebhookUrl.split("?")[0] + search : twilioWebhookUrl;
+}
+
+/**
+ * Validates Twilio's request signature: base64 HMAC-SHA1 of the full URL
+ * followed by every POST parameter's name and value, sorted by name.
+ */
+async function isValidTwilioSignature(
+  url: string,
+  params: Record<string, string>,
+  signature: string,
+): Promise<boolean> {
+  if (!twilioAuthToken || !signature) return false;
+
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(twilioAuthToken),
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"],
+  );
+  const mac = await crypto.subtle.sign("HMAC", key, encoder.encode(data));
+  const expected = btoa(String.fromCharCode(...new Uint8Array(mac)));
+
+  return timingSafeEqual(expected, signature);
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function isInboundAdapter(value?: string): value is InboundAdapter {
+  return value === "ios_shortcut" || value === "sms_forwarder" ||
+    value === "sms_gateway" || value === "tasker" || value === "twilio";
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === "string") return value;
+  if (typeof value === "number") return String(value);
+  return undefined;
+}
+
+function joinDateTime(date: unknown, time: unknown): string | undefined {
+  const d = asString(date);
+  if (!d) return undefined;
+  const t = asString(time);
+  return t ? `${d} ${t}` : d;
+}
+
+/**
+ * Converts epoch seconds/milliseconds (number or numeric string) to ISO.
+ * Other strings are passed through for normalizeDate to handle.
+ */
+function toIsoTimestamp(value: unknown): string | undefined {
+  const raw = asString(value)?.trim();
+  if (!raw) return undefined;
+
+  if (/^\d+(\.\d+)?$/.test(raw)) {
+    const epoch = Number(raw);
+    const date = new Date(epoch < 1e12 ? epoch * 1000 : epoch);
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+
+  return raw;
+}
@@ -0,0 +1,101 @@
+/**
+ * INGESTION LOG — Persists every processed SMS to the sms_ingestions table.
+ *
+ * Logging is best-effort: a database problem is reported to the console
+ * but never fails the webhook request.
+ */
+
+import type { GeminiParsedSms } from "./sms-parser.ts";
+import type { SmsInput, YnabResult } from "./pipeline.ts";
+import type { RoutingResult } from "./routing.ts";
+import { getSupabaseClient } from "./supabase.ts";
+import { DEFAULT_TENANT_ID } from "./tenants.ts";
+
+export type IngestionStatus = "sent" | "skipped" | "failed";
+
+export interface SmsIngestion {
+  tenant_id: string;
+  source: string;
+  sender: string;
+  received_at: string;
+  raw_payload: unknown;
+  status: IngestionStatus;
+  reason?: string;
+  detail?: string;
+  parser?: string;
+  ai_raw?: string;
+  ai_parsed?: GeminiParsedSms;
+  routing?: RoutingResult;
+  import_id?: string;
+  transaction_id?: string;
+  fee_transaction_id?: string;
+  sms_fee_transaction_id?: string;
+  result: unknown;
+}
+
+/**
+ * Writes one ingestion row. Returns its ID, or undefined if not logged.
+ */
+export async function logIngestion(
+  ingestion: SmsIngestion,
+): Promise<string | undefined> {
+  const db = getSupabaseClient();
+  if (!db) return undefined;
+
+  try {
+    const { data, error } = await db
+      .from("sms_ingestions")
+      .insert(ingestion)
+      .select("id")
+      .single();
+
+    if (error) {
+      console.error("Failed to log SMS ingestion:", error.message);
+      return undefined;
+    }
+
+    return data.id;
+  } catch (err) {
+    console.error("Failed to log SMS ingestion:", err);
+    return undefined;
+  }
+}
+
+/**
+ * Logs the outcome of processing an SMS. Returns the ingestion ID.
+ */
+export async function recordIngestion(
+  sms: SmsInput,
+  rawPayload: unknown,
+  result: YnabResult,
+  tenantId: string = DEFAULT_TENANT_ID,
+): Promise<string | undefined> {
+  return await logIngestion({
+    tenant_id: tenantId,
+    source: sms.source,
+    sender: sms.sender,
+    received_at: sms.receivedAtIso,
+    raw_payload: rawPayload,
+    status: ingestionStatus(result),
+    reason: result.reason,
+    detail: result.detail,
+    parser: result.parser,
+    ai_raw: result.ai_raw,
+    ai_parsed: result.ai_parsed,
+    routing: result.routing,
+    import_id: result.import_id,
+    transaction_id: result.transaction_ids?.[0],
+    fee_transaction_id: result.fee?.transaction_id,
+    sms_fee_transaction_id: result.sms_fee?.transaction_id,
+    result,
+  });
+}
+
+/**
+ * Classifies a result for the ingestion log.
+ */
+export function ingestionStatus(result: YnabResult): IngestionStatus {
+  if (result.sent) return "sent";
+  if (result.reason === "Not a transaction") return "skipped";
+  return "failed";
+}
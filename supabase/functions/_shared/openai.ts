@@ -0,0 +1,109 @@
+/**
+ * OPENAI-COMPATIBLE CLIENT — Parse SMS messages with any chat completions API.
+ *
+ * Works with OpenAI itself and with anything that speaks the same protocol:
+ * a local Ollama or llama.cpp server, LM Studio, OpenRouter, etc. Running a
+ * local model keeps the whole pipeline offline and free of vendor quotas.
+ */
+
+import { buildPrompt, isTimeoutError, parseModelJson } from "./prompt.ts";
+import type {
+  AiContext,
+  GeminiResult,
+  SmsParserProvider,
+} from "./sms-parser.ts";
+
+export const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+export interface OpenAiParserOptions {
+  baseUrl: string; // e.g. "http://localhost:11434/v1" for Ollama
+  model: string;
+  apiKey?: string; // Local servers usually don't need one
+  timeoutMs?: number; // Give up on a request after this long
+}
+
+/**
+ * Parses an SMS message using an OpenAI-compatible chat completions endpoint.
+ */
+export async function parseWithOpenAi(
+  smsText: string,
+  options: OpenAiParserOptions,
+  context: AiContext,
+): Promise<GeminiResult> {
+  const requestBody = {
+    model: options.model,
+    messages: [
+      {
+        role: "system",
+        content: "You extract transactions from SMS. Respond with JSON only.",
+      },
+      { role: "user", content: buildPrompt(smsText, context) },
+    ],
+    temperature: 0.1,
+    max_tokens: 2048,
+    response_format: { type: "json_object" },
+  };
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (options.apiKey) headers.Authorization = `Bearer ${options.apiKey}`;
+
+  try {
+    const baseUrl = options.baseUrl.replace(/\/+$/, "");
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(requestBody),
+      signal: options.timeoutMs
+        ? AbortSignal.timeout(options.timeoutMs)
+        : undefined,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      return {
+        success: false,
+        error: `LLM API error: ${response.status} ${response.statusText}`,
+        raw_response: errorText,
+      };
+    }
+
+    const completion = await response.json();
+    const textContent = completion.choices?.[0]?.message?.content;
+
+    if (!textContent) {
+      return {
+        success: false,
+        error: "No message content in LLM response",
+        raw_response: JSON.stringify(completion),
+      };
+    }
+
+    return parseModelJson(textContent, "LLM");
+  } catch (fetchError) {
+    if (isTimeoutError(fetchError)) {
+      return {
+        success: false,
+        error:
+          `LLM at ${options.baseUrl} timed out after ${options.timeoutMs} ms`,
+      };
+    }
+    return {
+      success: false,
+      error: `Network error calling LLM at ${options.baseUrl}: ${fetchError}`,
+    };
+  }
+}
+
+/**
+ * Creates an SMS parser backed by an OpenAI-compatible endpoint.
+ */
+export function createOpenAiParser(
+  options: OpenAiParserOptions,
+): SmsParserProvider {
+  return {
+    name: "openai",
+    parse: (smsText, context) => parseWithOpenAi(smsText, options, context),
+  };
+}
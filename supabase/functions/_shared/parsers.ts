@@ -1,43 +1,330 @@
 /**
  * PARSERS — Utility functions for data normalization.
+ *
+ * Dates without a timezone — the iOS Shortcut's "Jan 01, 2026 at 12:00",
+ * the dates printed in SMS — are local time in TIMEZONE, and YNAB dates
+ * are the local date there.
  */
 
+// IANA timezone of the phone and the SMS (default: Zambia, CAT = UTC+2)
+const DEFAULT_TIMEZONE = "Africa/Lusaka";
+export const TIMEZONE = parseTimezone(Deno.env.get("TIMEZONE"));
+
+// How many days before its arrival an SMS's stated date may be: further
+// back, a day-first date was probably misread
+const STATED_DATE_MAX_AGE_DAYS = 31;
+
+// A date and time as written, without a timezone
+export interface LocalDateTime {
+  year: number;
+  month: number; // 1–12
+  day: number;
+  hour?: number; // Absent when only a date is written
+  minute?: number;
+  second?: number;
+}
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+// "12:00", "12:00:30", "12:00 PM", "12:00 p.m."
+const TIME = String
+  .raw`(\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(?:\s*([ap])\.?m\.?)?`;
+
+// Shortcut and SMS date formats, with an optional time after them:
+// "2026-01-01 12:00", "Jan 01, 2026 at 12:00", "Thursday, January 1, 2026",
+// "1 Jan 2026", "01-Jan-2026", "01/01/2026" (day first, as in Zambia)
+const DATE_FORMATS: {
+  pattern: RegExp;
+  parts: (m: RegExpMatchArray) => [string, string, string]; // Y, M, D
+}[] = [
+  {
+    pattern: new RegExp(
+      String.raw`^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s]+${TIME})?$`,
+      "i",
+    ),
+    parts: (m) => [m[1], m[2], m[3]],
+  },
+  {
+    pattern: new RegExp(
+      String
+        .raw`^(?:[a-z]+,?\s+)?([a-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})(?:,?\s+${TIME})?$`,
+      "i",
+    ),
+    parts: (m) => [m[3], m[1], m[2]],
+  },
+  {
+    pattern: new RegExp(
+      String
+        .raw`^(?:[a-z]+,?\s+)?(\d{1,2})[\s-]([a-z]{3,9})\.?,?[\s-]\s*(\d{2}|\d{4})(?:,?\s+${TIME})?$`,
+      "i",
+    ),
+    parts: (m) => [m[3], m[2], m[1]],
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})(?:,?\s+${TIME})?$`,
+      "i",
+    ),
+    parts: (m) => [m[3], m[2], m[1]],
+  },
+];
+
+// A stated offset after the time: "GMT+2", "UTC+02:00", "+0200", "Z"
+const ZONE_SUFFIX =
+  /\s*(?:(?:GMT|UTC)(?:([+-])(\d{1,2})(?::?(\d{2}))?)?|(?<=:\d{2}(?:\.\d+)?)(?:([+-])(\d{2}):?(\d{2})|Z))$/i;
+
 /**
  * Normalizes a date string to ISO format.
- * Falls back to current time if input is missing or invalid.
+ * Understands ISO timestamps and the iOS Shortcut's formats; a date without
+ * an offset is local time in TIMEZONE. Falls back to current time if input
+ * is missing or invalid.
  */
 export function normalizeDate(input?: string): string {
-  const fallback = new Date();
-  if (!input) return fallback.toISOString();
+  return (input && parseDate(input)) || new Date().toISOString();
+}
+
+/**
+ * Parses a date string as normalizeDate does, but returns undefined for
+ * input it can't read instead of the current time.
+ */
+export function parseDate(input: string): string | undefined {
+  // iOS puts a narrow no-break space before AM/PM
+  const text = input.replace(/[\u00a0\u202f]/g, " ").replace(/\s+at\s+/i, " ")
+    .trim();
 
-  const d = new Date(input);
-  if (Number.isNaN(d.getTime())) return fallback.toISOString();
+  const zone = text.match(ZONE_SUFFIX);
+  const dateText = zone ? text.slice(0, zone.index) : text;
+  const local = parseLocalDateTime(dateText);
+  if (local) {
+    const offsetMinutes = zone ? zoneOffsetMinutes(zone) : undefined;
+    const ms = offsetMinutes === undefined
+      ? localToUtc(local)
+      : utcOf(local) - offsetMinutes * 60_000;
+    return new Date(ms).toISOString();
+  }
 
-  return d.toISOString();
+  // A date in a known format that isn't real ("Feb 30") isn't rolled over
+  if (DATE_FORMATS.some(({ pattern }) => pattern.test(dateText.trim()))) {
+    return undefined;
+  }
+
+  const d = new Date(text);
+  return Number.isNaN(d.getTime()) ? undefined : d.toISOString();
 }
 
 /**
- * Creates a deterministic import ID for YNAB deduplication.
- *
- * Hashes sender + full timestamp + amount + SMS text.
- * Using full timestamp allows same-amount transactions at different
- * times to be distinct, while deduplicating identical SMS.
- */
-export async function makeImportId(input: {
-  sender: string;
-  date: string;
-  amountMilli: number;
-  text: string;
-}): Promise<string> {
-  const encoder = new TextEncoder();
-  const raw =
-    `${input.sender}|${input.date}|${input.amountMilli}|${input.text}`;
-
-  const hash = await crypto.subtle.digest("SHA-256", encoder.encode(raw));
-
-  const hex = Array.from(new Uint8Array(hash))
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
-
-  return `sms:${hex.slice(0, 32)}`;
+ * Parses a date, optionally followed by a time, written without a
+ * timezone. Returns undefined for anything it doesn't recognize or that
+ * isn't a real date.
+ */
+export function parseLocalDateTime(input: string): LocalDateTime | undefined {
+  const text = input.trim();
+  for (const { pattern, parts } of DATE_FORMATS) {
+    const m = text.match(pattern);
+    if (!m) continue;
+
+    const [y, mo, d] = parts(m);
+    const year = y.length === 2 ? 2000 + Number(y) : Number(y);
+    const month = /^\d+$/.test(mo)
+      ? Number(mo)
+      : MONTHS.indexOf(mo.slice(0, 3).toLowerCase()) + 1;
+    const day = Number(d);
+
+    // The time is the last four groups of every format
+    const [h, min, s, meridiem] = m.slice(-4);
+    let hour = h === undefined ? undefined : Number(h);
+    if (hour !== undefined && meridiem) {
+      if (hour < 1 || hour > 12) return undefined;
+      hour = hour % 12 + (meridiem.toLowerCase() === "p" ? 12 : 0);
+    }
+
+    const local: LocalDateTime = {
+      year,
+      month,
+      day,
+      hour,
+      minute: min === undefined ? undefined : Number(min),
+      second: s === undefined ? undefined : Number(s),
+    };
+    return isValidLocalDateTime(local) ? local : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Formats a local date and time as "YYYY-MM-DD" or "YYYY-MM-DDTHH:MM".
+ */
+export function formatLocalDateTime(local: LocalDateTime): string {
+  const date = `${local.year}-${pad(local.month)}-${pad(local.day)}`;
+  return local.hour === undefined
+    ? date
+    : `${date}T${pad(local.hour)}:${pad(local.minute ?? 0)}`;
+}
+
+/**
+ * The date of an ISO timestamp in TIMEZONE, as YYYY-MM-DD — the date YNAB
+ * should show. Returns an empty string if the input can't be parsed.
+ */
+export function localDate(iso?: string): string {
+  const local = toLocal(iso);
+  return local ? formatLocalDateTime({ ...local, hour: undefined }) : "";
+}
+
+/**
+ * The YNAB date of an SMS: the date it states, if plausible, else the local
+ * date it arrived. SMS are sometimes delivered hours or days late.
+ */
+export function resolveTransactionDate(
+  stated: string | null | undefined,
+  receivedAtIso: string,
+): { date: string; source: "sms" | "received" } {
+  const received = localDate(receivedAtIso);
+  const statedDate = stated?.slice(0, 10);
+  if (!statedDate || !received) return { date: received, source: "received" };
+
+  // A day later at most, in case the provider's clock is a timezone ahead
+  const ageDays = (Date.parse(received) - Date.parse(statedDate)) /
+    (24 * 60 * 60 * 1000);
+  return ageDays >= -1 && ageDays <= STATED_DATE_MAX_AGE_DAYS
+    ? { date: statedDate, source: "sms" }
+    : { date: received, source: "received" };
+}
+
+/**
+ * Days between two YYYY-MM-DD dates, in either order.
+ */
+export function daysBetween(a: string, b: string): number {
+  const ms = Math.abs(
+    Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`),
+  );
+  return ms / (24 * 60 * 60 * 1000);
+}
+
+/**
+ * Adds days (negative to subtract) to a YYYY-MM-DD date.
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Formats an ISO timestamp as HH:MM in TIMEZONE.
+ * Returns an empty string if the input can't be parsed.
+ */
+export function formatLocalTime(iso?: string): string {
+  const local = toLocal(iso);
+  return local ? `${pad(local.hour ?? 0)}:${pad(local.minute ?? 0)}` : "";
+}
+
+// Formats instants as wall-clock parts in TIMEZONE
+const localFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: TIMEZONE,
+  hourCycle: "h23",
+  year: "numeric",
+  month: "numeric",
+  day: "numeric",
+  hour: "numeric",
+  minute: "numeric",
+  second: "numeric",
+});
+
+function toLocal(iso?: string): Required<LocalDateTime> | undefined {
+  if (!iso) return undefined;
+
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return undefined;
+
+  return localPartsOf(date.getTime());
+}
+
+function localPartsOf(ms: number): Required<LocalDateTime> {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of localFormat.formatToParts(new Date(ms))) {
+    if (type !== "literal") parts[type] = Number(value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * The instant a local date and time in TIMEZONE refers to, in ms.
+ */
+function localToUtc(local: LocalDateTime): number {
+  const wallClock = utcOf(local);
+  // The offset at the guess, corrected once for a DST change in between
+  let ms = wallClock - offsetAt(wallClock);
+  ms = wallClock - offsetAt(ms);
+  return ms;
+}
+
+// How far TIMEZONE's wall clock is ahead of UTC at an instant, in ms
+function offsetAt(ms: number): number {
+  const whole = Math.floor(ms / 1000) * 1000;
+  return utcOf(localPartsOf(whole)) - whole;
+}
+
+// A wall-clock time read as if it were UTC, in ms
+function utcOf(local: LocalDateTime): number {
+  return Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour ?? 0,
+    local.minute ?? 0,
+    local.second ?? 0,
+  );
+}
+
+function zoneOffsetMinutes(zone: RegExpMatchArray): number {
+  const [, gmtSign, gmtHours, gmtMinutes, sign, hours, minutes] = zone;
+  if (gmtSign ?? sign) {
+    const total = Number(gmtHours ?? hours) * 60 +
+      Number(gmtMinutes ?? minutes ?? 0);
+    return (gmtSign ?? sign) === "-" ? -total : total;
+  }
+  return 0; // "GMT", "UTC", "Z"
+}
+
+function isValidLocalDateTime(local: LocalDateTime): boolean {
+  const { year, month, day, hour = 0, minute = 0, second = 0 } = local;
+  if (month < 1 || month > 12 || day < 1) return false;
+  if (hour > 23 || minute > 59 || second > 59) return false;
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return day <= daysInMonth;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function parseTimezone(value?: string): string {
+  if (!value) return DEFAULT_TIMEZONE;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return value;
+  } catch {
+    console.error(`Unknown TIMEZONE "${value}", using ${DEFAULT_TIMEZONE}`);
+    return DEFAULT_TIMEZONE;
+  }
 }
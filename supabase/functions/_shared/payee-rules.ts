@@ -0,0 +1,144 @@
+/**
+ * PAYEE RULES — Maps raw payee names from SMS to canonical YNAB payees.
+ *
+ * The parser extracts names as the SMS prints them ("SHOPRITE MANDA HILL
+ * LUSAKA ZM", "ZESCO PREPAID 0123"), which rarely equal a YNAB payee. A rule
+ * matches the raw name by substring or regex (both case-insensitive) and
+ * names the payee to use, optionally with a default category and a flag.
+ *
+ * Defaults live in payee-rules.json; rows in the payee_rules table are tried
+ * first and apply to every tenant, or only to the one in tenant_id.
+ */
+
+import defaultRuleData from "./payee-rules.json" with { type: "json" };
+import { getSupabaseClient } from "./supabase.ts";
+import type { YnabFlagColor } from "./ynab.ts";
+
+// How long rules loaded from the database are reused
+const RULE_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+export type PayeeRuleMatchType = "contains" | "regex";
+
+export interface PayeeRule {
+  id: string;
+  match: PayeeRuleMatchType;
+  pattern: string;
+  payee: string; // Canonical YNAB payee name
+  category?: string | null; // Used when the parser gives no category
+  flag_color?: YnabFlagColor | null;
+  tenant_id?: string | null; // Null: every tenant
+}
+
+// The rule that matched a raw payee name, as reported in the result
+export interface PayeeRuleMatch {
+  rule_id: string;
+  raw_payee: string;
+  payee: string;
+  category?: string;
+  flag_color?: YnabFlagColor;
+}
+
+// A payee_rules table row
+interface PayeeRuleRow {
+  id: string;
+  tenant_id: string | null;
+  match_type: PayeeRuleMatchType;
+  pattern: string;
+  payee: string;
+  category: string | null;
+  flag_color: YnabFlagColor | null;
+}
+
+// A rule ready to test, its pattern compiled once
+interface CompiledRule {
+  rule: PayeeRule;
+  test: (name: string) => boolean;
+}
+
+const defaultRules = compileRules(defaultRuleData.rules as PayeeRule[]);
+let rules: CompiledRule[] = defaultRules;
+let rulesLoadedAt = 0;
+
+/**
+ * Loads rules from the payee_rules table ahead of the defaults. Cached;
+ * without a database only the defaults are used.
+ */
+export async function loadPayeeRules(): Promise<void> {
+  if (Date.now() - rulesLoadedAt < RULE_CACHE_TTL_MS) return;
+  rulesLoadedAt = Date.now();
+
+  const db = getSupabaseClient();
+  if (!db) return;
+
+  try {
+    const { data, error } = await db
+      .from("payee_rules")
+      .select(
+        "id, tenant_id, match_type, pattern, payee, category, flag_color",
+      )
+      .eq("enabled", true)
+      .order("priority", { ascending: true });
+
+    if (error) {
+      console.error("Failed to load payee rules:", error.message);
+      return;
+    }
+
+    const rows = (data ?? []) as PayeeRuleRow[];
+    rules = [
+      ...compileRules(rows.map((row) => ({ ...row, match: row.match_type }))),
+      ...defaultRules,
+    ];
+  } catch (err) {
+    console.error("Failed to load payee rules:", err);
+  }
+}
+
+/**
+ * Finds the first rule matching a raw payee name for a tenant.
+ */
+export function matchPayeeRule(
+  rawPayee: string,
+  tenantId: string,
+): PayeeRuleMatch | undefined {
+  const name = rawPayee.trim();
+  if (!name) return undefined;
+
+  const found = rules.find(({ rule, test }) =>
+    (!rule.tenant_id || rule.tenant_id === tenantId) && test(name)
+  );
+  if (!found) return undefined;
+
+  const { rule } = found;
+  return {
+    rule_id: rule.id,
+    raw_payee: name,
+    payee: rule.payee,
+    category: rule.category ?? undefined,
+    flag_color: rule.flag_color ?? undefined,
+  };
+}
+
+/**
+ * Compiles rule patterns; a rule with an invalid regex is skipped.
+ */
+function compileRules(list: PayeeRule[]): CompiledRule[] {
+  const compiled: CompiledRule[] = [];
+  for (const rule of list) {
+    if (rule.match === "regex") {
+      try {
+        const regex = new RegExp(rule.pattern, "i");
+        compiled.push({ rule, test: (name) => regex.test(name) });
+      } catch (err) {
+        console.error(`Skipping payee rule "${rule.id}":`, err);
+      }
+    } else {
+      const needle = rule.pattern.toLowerCase();
+      compiled.push({
+        rule,
+        test: (name) => name.toLowerCase().includes(needle),
+      });
+    }
+  }
+  return compiled;
+}
@@ -0,0 +1,1660 @@
+/**
+ * PIPELINE — Turns SMS into YNAB transactions.
+ *
+ * Parse → route → resolve payee/category → plan main, fee and SMS-fee
+ * transactions → post them. Shared by the webhook, batch imports, the retry
+ * queue and replays, so every entry point produces the same transactions and
+ * import IDs.
+ *
+ * Planning and posting are separate steps so a batch can parse many SMS
+ * concurrently and then post all their transactions in a few bulk calls.
+ */
+
+import {
+  createYnabClient,
+  YnabAuthError,
+  YnabRateLimitError,
+  YnabSubTransaction,
+  YnabTransaction,
+  YnabTransactionDetail,
+  YnabTransactionUpdate,
+  YnabValidationError,
+} from "./ynab.ts";
+import {
+  ensureCache,
+  findAccountByName,
+  findClosestPayee,
+  getAccountIdByName,
+  getAllAccounts,
+  getAllCategoryNames,
+  getAllPayeeNames,
+  getCategoryIdByName,
+  getLearnedCategory,
+  getPayeeIdByName,
+  getTransferPayeeIdByAccountName,
+} from "./ynab-lookup.ts";
+import { loadAccountMappings } from "./account-mappings.ts";
+import {
+  AccountMappings,
+  getAccountCurrency,
+  getMappedAccountNames,
+} from "./config.ts";
+import { Conversion, convertAmount, DEFAULT_CURRENCY } from "./currency.ts";
+import {
+  deriveImportId,
+  importIdScheme,
+  isSmsImportId,
+  makeImportId,
+  pickYnabImportId,
+} from "./import-ids.ts";
+import { resolveTransactionDate } from "./parsers.ts";
+import {
+  loadPayeeRules,
+  matchPayeeRule,
+  PayeeRuleMatch,
+} from "./payee-rules.ts";
+import { resolveAccountId, RoutingResult } from "./routing.ts";
+import {
+  deleteOriginalTransaction,
+  findAppliedReversal,
+  findOriginalTransaction,
+  originalCategory,
+  OriginalTransaction,
+  originalTransactionIds,
+  reversalMemo,
+  reversalMode,
+} from "./reversals.ts";
+import { getDefaultTenant, Tenant } from "./tenants.ts";
+import { getSign, toMilliunits } from "./gemini.ts";
+import {
+  GeminiParsedSms,
+  ParseConfidence,
+  parseSms,
+  SmsParserName,
+} from "./sms-parser.ts";
+import {
+  CONFIDENCE_MEMO_PREFIX,
+  ConfidenceFlag,
+  getConfidenceFlag,
+} from "./confidence.ts";
+import {
+  calculateFee,
+  FEE_SCHEDULE_CURRENCY,
+  getFeeRecipient,
+  getSmsNotificationFee,
+  loadFeeSchedules,
+  senderToProvider,
+  TransferType,
+} from "./fee-calculator.ts";
+import {
+  canBeFollowUp,
+  findSettledFollowUps,
+  followUpMatchingEnabled,
+  FollowUpSide,
+  followUpWindowStart,
+  isFollowUpOf,
+} from "./follow-ups.ts";
+import {
+  canBeOwnTransfer,
+  isTransferPair,
+  pickCounterpart,
+  transferMatchingEnabled,
+  TransferSide,
+  transferWindowStart,
+} from "./transfer-matcher.ts";
+import {
+  BalanceCheck,
+  checkAccountBalance,
+  reconcileMode,
+} from "./reconcile.ts";
+
+// Cash account name for ATM withdrawal transfers (defaults to "Cash")
+const cashAccountName = Deno.env.get("CASH_ACCOUNT_NAME") || "Cash";
+
+// Fuzzy payee matching: a payee this close is linked, one this close is
+// only suggested in the memo (scores 0–1)
+const PAYEE_MATCH_THRESHOLD = Number(Deno.env.get("PAYEE_MATCH_THRESHOLD")) ||
+  0.85;
+const PAYEE_SUGGEST_THRESHOLD =
+  Number(Deno.env.get("PAYEE_SUGGEST_THRESHOLD")) || 0.6;
+
+// How fees are posted: "separate" transactions (default), or "split" —
+// subtransactions of the main transaction, which then totals the amount
+// actually debited
+const FEE_POSTING = Deno.env.get("FEE_POSTING") === "split"
+  ? "split"
+  : "separate";
+
+// Batch limits: LLM calls in flight, and transactions per YNAB bulk call
+const BATCH_PARSE_CONCURRENCY =
+  Number(Deno.env.get("BATCH_PARSE_CONCURRENCY")) || 3;
+const BULK_CHUNK_SIZE = 100;
+
+type YnabClient = ReturnType<typeof createYnabClient>;
+
+interface YnabContext {
+  client: YnabClient;
+  budgetId: string;
+  tenant: Tenant;
+  mappings: AccountMappings; // The tenant's, including database rows
+}
+
+// A normalized SMS, ready for processing
+export interface SmsInput {
+  source: string;
+  sender: string;
+  text: string;
+  receivedAtIso: string;
+}
+
+export interface ProcessOptions {
+  dryRun?: boolean; // Plan everything, post nothing
+  reconcile?: boolean; // Compare SMS balances with YNAB (default true)
+  tenant?: Tenant; // Whose budget and mappings to use (default tenant)
+}
+
+// Result returned to caller and logged
+export interface YnabResult {
+  sent: boolean;
+  reason?: string;
+  detail?: string;
+  account?: string;
+  transfer_to?: string; // Transfer destination (Cash for ATM withdrawals)
+  transfer_match?: {
+    account: string; // The other side's account
+    transaction_id?: string; // Existing YNAB transaction made the transfer
+    matched_in: "batch" | "ynab";
+  };
+  transfer_candidates?: string[]; // Accounts of equally likely other sides
+  pending?: boolean; // Imported uncleared, until its posted SMS arrives
+  follow_up?: {
+    transaction_id?: string; // The pending transaction this SMS settled
+    previous_amount: number; // The pending amount, now replaced
+    previous_date: string;
+    matched_in: "batch" | "ynab";
+  };
+  category?: string;
+  // Where the category came from; "learned" is the payee's usual category,
+  // "original" the category of the transaction a reversal undoes
+  category_source?: "parser" | "payee_rule" | "learned" | "original";
+  category_learned?: { count: number; total: number }; // Payee's history
+  payee?: string;
+  payee_matched?: boolean;
+  payee_extracted?: string;
+  payee_rule?: PayeeRuleMatch; // Payee rule that renamed the extracted payee
+  payee_fuzzy?: {
+    candidate: string; // Closest existing payee
+    score: number;
+    linked: boolean; // False: a near miss, only suggested in the memo
+  };
+  memo?: string;
+  confidence_flag?: ConfidenceFlag; // Set when the parser was unsure
+  amount?: number; // In the account's currency
+  currency?: string; // The account's currency
+  conversion?: {
+    original_amount: number;
+    original_currency: string;
+    rate: number;
+    rate_source: string;
+  };
+  direction?: string;
+  date_source?: "sms" | "received"; // Where the YNAB date came from
+  routing?: RoutingResult;
+  import_id?: string;
+  transaction_ids?: string[];
+  duplicate_import_ids?: string[];
+  planned?: PlannedTransactions; // Dry run only
+  balance_check?: BalanceCheck; // Only when the SMS states a balance
+  fee?: {
+    amount: number;
+    payee: string | null;
+    transaction_id?: string;
+    transfer_type?: string;
+    effective_from?: string; // Fee schedule version used
+    source?: "sms" | "schedule" | "placeholder";
+  };
+  fee_check?: {
+    stated: number; // Fee + levy printed in the SMS
+    schedule: number; // Fee from the tier table
+    difference: number; // Stated minus schedule
+    effective_from?: string;
+  };
+  sms_fee?: {
+    amount: number;
+    payee: string | null;
+    transaction_id?: string;
+  };
+  split?: boolean; // Fees posted as subtransactions of the main transaction
+  reversal?: {
+    ref: string; // The reversed transaction's reference
+    action: "offset" | "delete" | "not_found";
+    original_transaction_id?: string;
+    found_in?: OriginalTransaction["found_in"];
+    deleted_ids?: string[]; // Original and fee rows deleted
+    duplicate?: boolean; // Applied before, by an earlier delivery
+  };
+  parser?: SmsParserName;
+  parser_fallback?: string; // Why the primary parser wasn't used
+  ai_parsed?: GeminiParsedSms;
+  ai_raw?: string;
+}
+
+// What a dry run would have sent to YNAB for one SMS
+export interface PlannedTransactions {
+  main?: YnabTransaction; // Absent when the transfer's other side records it
+  fee?: YnabTransaction;
+  sms_fee?: YnabTransaction; // SMS notification fee
+  transfer_update?: YnabTransactionUpdate; // Turns a counterpart into the transfer
+  follow_up_update?: YnabTransactionUpdate; // Settles a pending transaction
+  deletes?: string[]; // Transactions a reversal deletes
+}
+
+// The transactions one SMS will create, built before anything is posted
+interface TransactionPlan {
+  sms: SmsInput;
+  main: YnabTransaction;
+  fee?: YnabTransaction;
+  smsFee?: YnabTransaction;
+  transfer?: TransferLink; // Set when main is the other side of a transfer
+  followUp?: FollowUpLink; // Set when the SMS settles a pending transaction
+  result: YnabResult; // Filled in with transaction IDs once posted
+}
+
+// Links an SMS to the other side of a transfer between our own accounts.
+// Its main transaction isn't posted: YNAB creates this side of the transfer
+// when the counterpart's payee becomes this account's transfer payee.
+interface TransferLink {
+  account: string;
+  update?: YnabTransactionUpdate; // Turns an existing counterpart into the transfer
+}
+
+// Links a posted SMS to the pending transaction it settles. Nothing of its
+// own is posted: the pending transaction takes its amount and date.
+interface FollowUpLink {
+  update?: YnabTransactionUpdate; // Settles a pending transaction in YNAB
+  importId?: string; // Import ID of the pending transaction in the batch
+  settledId?: string; // Already settled by an earlier delivery of the SMS
+}
+
+// Planning either yields transactions to post or a final result
+type PlanOutcome =
+  | { plan: TransactionPlan; result?: undefined }
+  | { plan?: undefined; result: YnabResult };
+
+/**
+ * Processes an SMS end to end. Never throws.
+ */
+export async function processSms(
+  sms: SmsInput,
+  options: ProcessOptions = {},
+): Promise<YnabResult> {
+  const [result] = await processSmsBatch([sms], options);
+  return result;
+}
+
+/**
+ * Processes many SMS at once. Never throws.
+ *
+ * YNAB data is fetched once, SMS are parsed with bounded concurrency, and
+ * all resulting transactions are posted in bulk. Results are returned in
+ * input order. In a dry run nothing is created in YNAB; each result lists
+ * the transactions that would have been posted.
+ */
+export async function processSmsBatch(
+  smsList: SmsInput[],
+  options: ProcessOptions = {},
+): Promise<YnabResult[]> {
+  const tenant = options.tenant ?? getDefaultTenant();
+  if (!tenant.ynabToken || !tenant.budgetId) {
+    return smsList.map(() => ({ sent: false, reason: "YNAB not configured" }));
+  }
+
+  const ynab = await prepareYnab(tenant);
+  if ("sent" in ynab) return smsList.map(() => ({ ...ynab }));
+
+  const outcomes = await mapWithConcurrency(
+    smsList,
+    BATCH_PARSE_CONCURRENCY,
+    (sms) => planSmsSafely(sms, ynab, options),
+  );
+
+  // The same SMS twice in one batch would post the same import ID twice
+  const seenImportIds = new Set<string>();
+  const plans: TransactionPlan[] = [];
+  for (const outcome of outcomes) {
+    if (!outcome.plan) continue;
+
+    const importId = outcome.plan.main.import_id;
+    if (importId && seenImportIds.has(importId)) {
+      outcome.plan.result.sent = false;
+      outcome.plan.result.reason = "Duplicate in batch";
+      outcome.plan.result.duplicate_import_ids = [importId];
+      continue;
+    }
+    if (importId) seenImportIds.add(importId);
+    plans.push(outcome.plan);
+  }
+
+  if (importIdScheme === "ynab") await assignYnabImportIds(plans, ynab);
+  if (followUpMatchingEnabled) await matchFollowUps(plans, ynab);
+  if (transferMatchingEnabled) await matchTransfers(plans, ynab);
+  if (FEE_POSTING === "split") {
+    // An outflow whose other side may still arrive keeps separate fee rows
+    const ownAccountIds = transferMatchingEnabled
+      ? getOwnAccountIds(ynab)
+      : new Set<string>();
+    plans
+      .filter((p) => !isTransferCandidate(p, ownAccountIds))
+      .forEach(foldFeesIntoSplit);
+  }
+
+  if (options.dryRun) {
+    for (const plan of plans) {
+      plan.result.reason = "Dry run";
+      const [main, fee, smsFee] = plan.followUp
+        ? []
+        : [plan.transfer ? undefined : plan.main, plan.fee, plan.smsFee];
+      plan.result.planned = {
+        main,
+        fee,
+        sms_fee: smsFee,
+        transfer_update: plan.transfer?.update,
+        follow_up_update: plan.followUp?.update,
+      };
+    }
+    return outcomes.map((o) => o.plan ? o.plan.result : o.result);
+  }
+
+  for (let i = 0; i < plans.length; i += BULK_CHUNK_SIZE) {
+    await submitPlans(plans.slice(i, i + BULK_CHUNK_SIZE), ynab);
+  }
+
+  if (reconcileMode !== "off" && options.reconcile !== false) {
+    await reconcileBalances(plans, ynab);
+  }
+
+  return outcomes.map((o) => o.plan ? o.plan.result : o.result);
+}
+
+/**
+ * Creates the tenant's YNAB client and fills their lookup cache.
+ */
+async function prepareYnab(tenant: Tenant): Promise<YnabContext | YnabResult> {
+  const { ynabToken, budgetId } = tenant;
+  if (!ynabToken || !budgetId) {
+    return { sent: false, reason: "YNAB env missing" };
+  }
+
+  // Initialize YNAB client and fetch categories/payees
+  const client = createYnabClient({ token: ynabToken, budgetId });
+
+  let mappings: AccountMappings;
+  try {
+    [mappings] = await Promise.all([
+      loadAccountMappings(tenant),
+      ensureCache(client, budgetId),
+      loadFeeSchedules(),
+      loadPayeeRules(),
+    ]);
+  } catch (err) {
+    console.error("Failed to fetch YNAB data:", err);
+    return {
+      sent: false,
+      reason: err instanceof YnabAuthError
+        ? ynabErrorReason(err)
+        : "Failed to fetch YNAB data",
+      detail: String(err),
+    };
+  }
+
+  return { client, budgetId, tenant, mappings };
+}
+
+/**
+ * Plans one SMS of a batch; an unexpected error fails only that SMS, so
+ * the rest are still posted, logged and queued for retry.
+ */
+async function planSmsSafely(
+  sms: SmsInput,
+  ynab: YnabContext,
+  options: ProcessOptions,
+): Promise<PlanOutcome> {
+  try {
+    return await planSms(sms, ynab, options);
+  } catch (err) {
+    console.error("Failed to process SMS:", err);
+    return {
+      result: { sent: false, reason: "Processing failed", detail: String(err) },
+    };
+  }
+}
+
+/**
+ * Parses an SMS and builds the transactions it should create.
+ */
+async function planSms(
+  sms: SmsInput,
+  { client, budgetId, tenant, mappings }: YnabContext,
+  options: ProcessOptions,
+): Promise<PlanOutcome> {
+  const { text, sender, receivedAtIso } = sms;
+
+  const categories = getAllCategoryNames(budgetId);
+  const payees = getAllPayeeNames(budgetId);
+
+  // Parse SMS with the LLM backend and/or the rule parser
+  // Pass sender so the parser can determine same_network vs cross_network
+  const geminiResult = await parseSms(text, {
+    categories,
+    payees,
+    receivedAt: receivedAtIso,
+    sender,
+  });
+
+  if (!geminiResult.success || !geminiResult.parsed) {
+    console.error("SMS parsing failed:", geminiResult.error);
+    return {
+      result: {
+        sent: false,
+        reason: "AI parsing failed",
+        detail: geminiResult.error,
+        parser: geminiResult.parser,
+        ai_raw: geminiResult.raw_response,
+      },
+    };
+  }
+
+  const aiParsed = geminiResult.parsed;
+  const parserInfo = {
+    parser: geminiResult.parser,
+    parser_fallback: geminiResult.fallback_reason,
+  };
+
+  // Check if this is a transaction
+  if (!aiParsed.is_transaction) {
+    return {
+      result: {
+        sent: false,
+        reason: "Not a transaction",
+        detail: aiParsed.reason,
+        ...parserInfo,
+        ai_parsed: aiParsed,
+        ai_raw: geminiResult.raw_response,
+      },
+    };
+  }
+
+  // Validate required fields
+  if (aiParsed.amount === null || aiParsed.amount === undefined) {
+    return {
+      result: {
+        sent: false,
+        reason: "AI could not extract amount",
+        ai_parsed: aiParsed,
+      },
+    };
+  }
+
+  if (!aiParsed.direction) {
+    return {
+      result: {
+        sent: false,
+        reason: "AI could not determine direction",
+        ai_parsed: aiParsed,
+      },
+    };
+  }
+
+  // The date the SMS states beats when it arrived
+  const { date, source: dateSource } = resolveTransactionDate(
+    aiParsed.transaction_date,
+    receivedAtIso,
+  );
+
+  // Resolve YNAB account
+  const routing = await resolveAccountId(text, sender, client, budgetId, {
+    dryRun: options.dryRun,
+    tenant,
+  });
+
+  if (!routing.accountId && routing.source !== "fallback_pending") {
+    return {
+      result: {
+        sent: false,
+        reason: "No account resolved",
+        routing,
+        ...parserInfo,
+        ai_parsed: aiParsed,
+      },
+    };
+  }
+
+  // In a dry run the fallback account isn't created, so it has no ID yet
+  const accountId = routing.accountId ?? `(new) ${routing.accountName}`;
+
+  // Convert foreign-currency SMS into the account's currency
+  const accountCurrency =
+    getAccountCurrency(routing.accountName ?? "", mappings) ??
+      DEFAULT_CURRENCY;
+  const smsCurrency = aiParsed.currency ?? accountCurrency;
+
+  let conversion: Conversion | undefined;
+  if (smsCurrency !== accountCurrency) {
+    const converted = convertAmount(
+      aiParsed.amount,
+      smsCurrency,
+      accountCurrency,
+    );
+    if (!converted) {
+      return {
+        result: {
+          sent: false,
+          reason: "No exchange rate",
+          detail: `No rate to convert ${smsCurrency} to ${accountCurrency}`,
+          account: routing.accountName,
+          routing,
+          ...parserInfo,
+          ai_parsed: aiParsed,
+        },
+      };
+    }
+    conversion = converted;
+  }
+
+  // Amounts from the SMS (amount, stated fee) in the account's currency
+  const amount = conversion?.amount ?? aiParsed.amount;
+  const inAccountCurrency = (value: number) =>
+    conversion ? Math.round(value * conversion.rate * 100) / 100 : value;
+
+  // Check if this is an ATM withdrawal — should be recorded as transfer to Cash
+  const isAtmWithdrawal = aiParsed.transfer_type === "withdrawal";
+
+  // For ATM withdrawals, get the Cash account's transfer payee ID
+  // This makes the transaction a transfer instead of a regular outflow
+  let transferPayeeId: string | undefined;
+  if (isAtmWithdrawal) {
+    transferPayeeId = getTransferPayeeIdByAccountName(
+      cashAccountName,
+      budgetId,
+    );
+    if (!transferPayeeId) {
+      console.warn(
+        `Cash account "${cashAccountName}" not found — ATM withdrawal will be regular outflow`,
+      );
+    }
+  }
+
+  // Find the transaction a reversal undoes (a dry run's new fallback
+  // account has none)
+  const reversedRef = reversalMode !== "off" && aiParsed.is_reversal
+    ? aiParsed.reversed_ref
+    : null;
+
+  // A reversal already applied — its original perhaps deleted — is a
+  // redelivery, not a new inflow
+  const applied = reversedRef
+    ? await findAppliedReversal(tenant.id, reversedRef)
+    : undefined;
+  if (reversedRef && applied) {
+    return {
+      result: {
+        sent: true,
+        reason: "Reversal already applied",
+        account: routing.accountName,
+        memo: aiParsed.memo ?? undefined,
+        amount,
+        currency: accountCurrency,
+        direction: aiParsed.direction,
+        routing,
+        transaction_ids: applied.transaction_id ? [applied.transaction_id] : [],
+        reversal: {
+          ref: reversedRef,
+          action: applied.action,
+          original_transaction_id: applied.original_transaction_id,
+          deleted_ids: applied.deleted_ids,
+          duplicate: true,
+        },
+        ...parserInfo,
+        ai_parsed: aiParsed,
+        ai_raw: geminiResult.raw_response,
+      },
+    };
+  }
+
+  const original = reversedRef && routing.accountId
+    ? await findOriginalTransaction(client, budgetId, tenant.id, {
+      ref: reversedRef,
+      accountId: routing.accountId,
+      date,
+    })
+    : undefined;
+
+  if (reversedRef && original && reversalMode === "delete") {
+    return {
+      result: await deleteReversed(client, budgetId, original, {
+        sent: false,
+        account: routing.accountName,
+        memo: aiParsed.memo ?? undefined,
+        amount,
+        currency: accountCurrency,
+        direction: aiParsed.direction,
+        routing,
+        reversal: {
+          ref: reversedRef,
+          action: "delete",
+          original_transaction_id: original.transaction.id,
+          found_in: original.found_in,
+        },
+        ...parserInfo,
+        ai_parsed: aiParsed,
+        ai_raw: geminiResult.raw_response,
+      }, options.dryRun),
+    };
+  }
+
+  // Map the raw payee name to its canonical payee with the payee rules
+  // (a reversal keeps the original's payee)
+  const payeeRule = aiParsed.payee && !transferPayeeId && !original
+    ? matchPayeeRule(aiParsed.payee, tenant.id)
+    : undefined;
+  const payeeName = payeeRule?.payee ?? aiParsed.payee;
+  // A rule's category is only a default: the parser's choice wins
+  const reversedCategory = original && originalCategory(original.transaction);
+  const categoryName = original
+    ? reversedCategory?.name ?? null
+    : aiParsed.category ?? payeeRule?.category ?? null;
+
+  // Look up category and payee IDs (skip for transfers)
+  let categoryId = original
+    ? reversedCategory?.id
+    : categoryName && !transferPayeeId
+    ? getCategoryIdByName(categoryName, budgetId)
+    : undefined;
+
+  let payeeId: string | undefined;
+  let payeeMatched = false;
+  let payeeFuzzy: YnabResult["payee_fuzzy"];
+  if (transferPayeeId) {
+    // ATM withdrawal: use transfer payee (creates transfer to Cash account)
+    payeeId = transferPayeeId;
+    payeeMatched = true;
+  } else if (original) {
+    // Reversal: back to whoever the original went to (a transfer payee
+    // moves the money back between the accounts)
+    payeeId = original.transaction.payee_id ?? undefined;
+    payeeMatched = !!payeeId;
+  } else if (payeeName) {
+    // Regular transaction: look up payee by name
+    payeeId = getPayeeIdByName(payeeName, budgetId);
+    payeeMatched = !!payeeId;
+
+    // No exact match: try the closest existing payee (a rule's payee is
+    // used as named)
+    const candidate = !payeeId && !payeeRule
+      ? findClosestPayee(payeeName, budgetId)
+      : undefined;
+    if (candidate && candidate.score >= PAYEE_SUGGEST_THRESHOLD) {
+      const linked = candidate.score >= PAYEE_MATCH_THRESHOLD;
+      payeeFuzzy = {
+        candidate: candidate.name,
+        score: Math.round(candidate.score * 100) / 100,
+        linked,
+      };
+      if (linked) {
+        payeeId = candidate.id;
+        payeeMatched = true;
+      }
+    }
+  }
+
+  // No category from the parser or a rule: use the payee's usual one
+  const learned = !categoryName && payeeId && !transferPayeeId && !original
+    ? getLearnedCategory(payeeId, budgetId)
+    : undefined;
+  if (learned) categoryId = learned.category_id;
+  const categorySource: YnabResult["category_source"] = original
+    ? (categoryId ? "original" : undefined)
+    : aiParsed.category
+    ? "parser"
+    : payeeRule?.category
+    ? "payee_rule"
+    : learned
+    ? "learned"
+    : undefined;
+
+  // Flag the import if the parser was unsure of a field it decided: payees
+  // named by a rule and categories it didn't pick aren't its call
+  const confidenceFields: (keyof ParseConfidence)[] = ["amount", "direction"];
+  if (payeeName && !payeeRule && !transferPayeeId && !original) {
+    confidenceFields.push("payee");
+  }
+  if (categorySource === "parser" && !transferPayeeId) {
+    confidenceFields.push("category");
+  }
+  const confidenceFlag = getConfidenceFlag(
+    aiParsed.confidence,
+    confidenceFields,
+  );
+
+  // Generate import ID for deduplication (from the SMS amount, so a rate
+  // change never produces a second import ID for the same SMS)
+  const amountMilli = toMilliunits(aiParsed.amount);
+  const importId = await makeImportId({
+    sender,
+    date: receivedAtIso,
+    amountMilli,
+    text,
+    accountId,
+    ref: aiParsed.transaction_ref,
+    pending: aiParsed.is_pending,
+  });
+
+  // Build transaction
+  // A reversal moves money the opposite way to the transaction it undoes
+  const sign = original
+    ? (original.transaction.amount < 0 ? 1 : -1)
+    : getSign(aiParsed.direction);
+  const smsMemo = aiParsed.memo ?? text.slice(0, 200);
+  const baseMemo = reversedRef
+    ? reversalMemo(smsMemo, reversedRef, original)
+    : smsMemo;
+  // Keep the original amount visible when it was converted
+  const convertedMemo = conversion
+    ? `${baseMemo} | ${smsCurrency} ${
+      aiParsed.amount.toFixed(2)
+    } @ ${conversion.rate}`
+    : baseMemo;
+  // Point out a near-miss payee for review
+  const suggestedMemo = payeeFuzzy && !payeeFuzzy.linked
+    ? `${convertedMemo} | Payee? ${payeeFuzzy.candidate} (${
+      Math.round(payeeFuzzy.score * 100)
+    }%)`
+    : convertedMemo;
+  const memo = confidenceFlag
+    ? CONFIDENCE_MEMO_PREFIX + suggestedMemo
+    : suggestedMemo;
+
+  const transaction: YnabTransaction = {
+    account_id: accountId,
+    date,
+    amount: toMilliunits(amount) * sign,
+    memo,
+    // Uncleared until the posted SMS settles it
+    cleared: aiParsed.is_pending ? "uncleared" : "cleared",
+    approved: false,
+    import_id: importId,
+  };
+
+  if (payeeId) transaction.payee_id = payeeId;
+  // A rule's payee is trusted: YNAB creates it if it doesn't exist yet
+  else if (payeeRule) transaction.payee_name = payeeRule.payee;
+  // A low-confidence flag outranks the rule's: it asks for a review
+  const flagColor = confidenceFlag?.flag_color ?? payeeRule?.flag_color;
+  if (flagColor) transaction.flag_color = flagColor;
+  // Don't set category for transfers (YNAB doesn't allow it)
+  if (categoryId && !transferPayeeId) transaction.category_id = categoryId;
+
+  const plan: TransactionPlan = {
+    sms,
+    main: transaction,
+    result: {
+      sent: false,
+      account: routing.accountName,
+      // If ATM withdrawal, show that it's a transfer to Cash account
+      transfer_to: transferPayeeId ? cashAccountName : undefined,
+      pending: aiParsed.is_pending || undefined,
+      category: categoryName ?? learned?.category_name,
+      category_source: categorySource,
+      category_learned: learned && {
+        count: learned.count,
+        total: learned.total,
+      },
+      payee: original
+        ? original.transaction.payee_name ?? undefined
+        : (payeeMatched || payeeRule) && !transferPayeeId
+        ? (payeeFuzzy?.linked ? payeeFuzzy.candidate : payeeName ?? undefined)
+        : undefined,
+      payee_matched: payeeMatched,
+      payee_extracted: aiParsed.payee ?? undefined,
+      payee_rule: payeeRule,
+      payee_fuzzy: payeeFuzzy,
+      memo,
+      confidence_flag: confidenceFlag,
+      reversal: reversedRef
+        ? {
+          ref: reversedRef,
+          action: original ? "offset" : "not_found",
+          original_transaction_id: original?.transaction.id,
+          found_in: original?.found_in,
+        }
+        : undefined,
+      amount,
+      currency: accountCurrency,
+      conversion: conversion && {
+        original_amount: aiParsed.amount,
+        original_currency: smsCurrency,
+        rate: conversion.rate,
+        rate_source: conversion.rate_source,
+      },
+      direction: aiParsed.direction,
+      date_source: dateSource,
+      routing,
+      import_id: importId,
+      ...parserInfo,
+      ai_parsed: aiParsed,
+      ai_raw: geminiResult.raw_response,
+    },
+  };
+
+  // Plan fee transaction if applicable
+  const provider = senderToProvider(sender);
+
+  // A fee printed in the SMS (with its levy) wins over the tier table; a
+  // levy printed without one is added to the table's fee
+  const rawStatedFee = getStatedFee(aiParsed);
+  const statedFee = rawStatedFee === null
+    ? null
+    : inAccountCurrency(rawStatedFee);
+  const statedLevy = statedFee === null && aiParsed.levy
+    ? inAccountCurrency(aiParsed.levy)
+    : 0;
+
+  // Fee schedules are in ZMW, so they only apply to ZMW accounts
+  const schedulesApply = accountCurrency === FEE_SCHEDULE_CURRENCY;
+
+  // Calculate fee for known transfer types
+  const feeResult = schedulesApply &&
+      aiParsed.direction === "outflow" &&
+      aiParsed.transfer_type &&
+      aiParsed.transfer_type !== "unknown"
+    ? calculateFee(
+      provider,
+      aiParsed.transfer_type as TransferType,
+      amount,
+      transaction.date,
+    )
+    : undefined;
+
+  // Record when the SMS disagrees with the table, so stale tariffs show up
+  if (statedFee !== null && feeResult?.fee != null) {
+    const difference = Math.round((statedFee - feeResult.fee) * 100) / 100;
+    plan.result.fee_check = {
+      stated: statedFee,
+      schedule: feeResult.fee,
+      difference,
+      effective_from: feeResult.effective_from,
+    };
+    if (difference !== 0) {
+      console.warn("Fee mismatch:", { sender, ...plan.result.fee_check });
+    }
+  }
+
+  const scheduledFee = feeResult?.fee ?? null;
+  const feeAmount = statedFee ??
+    (scheduledFee === null && !statedLevy
+      ? null
+      : Math.round(((scheduledFee ?? 0) + statedLevy) * 100) / 100);
+
+  // The Absa placeholder stands in for the fee of a transfer it can't price
+  const placeholderApplies = provider === "absa" &&
+    schedulesApply &&
+    aiParsed.direction === "outflow" &&
+    (!aiParsed.transfer_type || aiParsed.transfer_type === "unknown") &&
+    statedFee === null;
+
+  // The placeholder carries a levy stated for a transfer it stands in for
+  if (feeAmount && feeAmount > 0 && !placeholderApplies) {
+    // A stated fee may have no schedule; use the provider's usual fee payee
+    const recipient = feeResult?.configured
+      ? feeResult
+      : getFeeRecipient(provider);
+
+    const feeCategoryId = recipient.category
+      ? getCategoryIdByName(recipient.category, budgetId)
+      : undefined;
+    const feePayeeId = recipient.payee
+      ? getPayeeIdByName(recipient.payee, budgetId)
+      : undefined;
+
+    const refId = aiParsed.transaction_ref ?? importId;
+    const feeImportId = deriveImportId(importId, "fee");
+
+    const breakdown = aiParsed.levy
+      ? ` | Fee: ${(aiParsed.fee ?? scheduledFee ?? 0).toFixed(2)} | Levy: ${
+        aiParsed.levy.toFixed(2)
+      }`
+      : "";
+
+    const feeTransaction: YnabTransaction = {
+      account_id: accountId,
+      date,
+      amount: -toMilliunits(feeAmount),
+      memo: `Transaction Fee: Ref: ${refId}${breakdown}`,
+      cleared: "cleared",
+      approved: false,
+      import_id: feeImportId,
+    };
+
+    if (feePayeeId) feeTransaction.payee_id = feePayeeId;
+    if (feeCategoryId) feeTransaction.category_id = feeCategoryId;
+
+    plan.fee = feeTransaction;
+    plan.result.fee = {
+      amount: feeAmount,
+      payee: recipient.payee,
+      transfer_type: aiParsed.transfer_type ?? undefined,
+      effective_from: statedFee === null
+        ? feeResult?.effective_from
+        : undefined,
+      source: statedFee === null && scheduledFee !== null ? "schedule" : "sms",
+    };
+  }
+
+  // Plan placeholder fee for Absa unknown transfers, with a stated levy
+  if (placeholderApplies && !plan.fee) {
+    const FEE_CATEGORY_NAME = Deno.env.get("FEE_CATEGORY_NAME") || null;
+    const placeholderCategoryId = FEE_CATEGORY_NAME
+      ? getCategoryIdByName(FEE_CATEGORY_NAME, budgetId)
+      : undefined;
+    const absaPayeeId = getPayeeIdByName("Absa Bank", budgetId);
+    const placeholderFeeImportId = deriveImportId(importId, "plt");
+
+    const placeholderAmount = Math.round((10 + statedLevy) * 100) / 100;
+    const levyMemo = statedLevy ? ` + Levy ${statedLevy.toFixed(2)}` : "";
+
+    const placeholderFeeTransaction: YnabTransaction = {
+      account_id: accountId,
+      date,
+      amount: -toMilliunits(placeholderAmount),
+      memo: `Transfer Fee (estimated K10)${levyMemo} - verify & adjust amount`,
+      cleared: "cleared",
+      approved: false,
+      import_id: placeholderFeeImportId,
+    };
+
+    if (absaPayeeId) placeholderFeeTransaction.payee_id = absaPayeeId;
+    if (placeholderCategoryId) {
+      placeholderFeeTransaction.category_id = placeholderCategoryId;
+    }
+
+    plan.fee = placeholderFeeTransaction;
+    plan.result.fee = {
+      amount: placeholderAmount,
+      payee: "Absa Bank",
+      transfer_type: "placeholder",
+      source: "placeholder",
+    };
+  }
+
+  // Plan SMS notification fee if applicable
+  const smsNotificationFee = getSmsNotificationFee(
+    provider,
+    transaction.date,
+  );
+
+  if (
+    schedulesApply && smsNotificationFee.fee && smsNotificationFee.fee > 0
+  ) {
+    const smsFeeCategoryId = smsNotificationFee.category
+      ? getCategoryIdByName(smsNotificationFee.category, budgetId)
+      : undefined;
+    const smsFeePayeeId = smsNotificationFee.payee
+      ? getPayeeIdByName(smsNotificationFee.payee, budgetId)
+      : undefined;
+
+    const refId = aiParsed.transaction_ref ?? importId;
+    const smsFeeImportId = deriveImportId(importId, "ntf");
+
+    const smsFeeTransaction: YnabTransaction = {
+      account_id: accountId,
+      date,
+      amount: -toMilliunits(smsNotificationFee.fee),
+      memo: `SMS Notification Fee: Ref: ${refId}`,
+      cleared: "cleared",
+      approved: false,
+      import_id: smsFeeImportId,
+    };
+
+    if (smsFeePayeeId) smsFeeTransaction.payee_id = smsFeePayeeId;
+    if (smsFeeCategoryId) smsFeeTransaction.category_id = smsFeeCategoryId;
+
+    plan.smsFee = smsFeeTransaction;
+    plan.result.sms_fee = {
+      amount: smsNotificationFee.fee,
+      payee: smsNotificationFee.payee,
+    };
+  }
+
+  return { plan };
+}
+
+/**
+ * Settles pending card transactions with their posted SMS, first within the
+ * batch and then against uncleared SMS imports in YNAB. The posted SMS
+ * creates nothing: the pending transaction takes its amount and date and
+ * is marked cleared. A posted SMS that already settled one is a duplicate.
+ */
+async function matchFollowUps(
+  plans: TransactionPlan[],
+  { client, budgetId, tenant }: YnabContext,
+): Promise<void> {
+  const candidates = plans.filter((p) =>
+    !p.result.transfer_to &&
+    p.result.ai_parsed && canBeFollowUp(p.result.ai_parsed)
+  );
+  if (candidates.length === 0) return;
+
+  const settled = new Set<TransactionPlan>();
+
+  for (const posted of candidates) {
+    const pending = plans.find((p) =>
+      p.result.ai_parsed?.is_pending &&
+      !settled.has(p) &&
+      isFollowUpOf(toFollowUpSide(posted), toFollowUpSide(p))
+    );
+    if (!pending) continue;
+
+    posted.followUp = { importId: pending.main.import_id };
+    posted.result.follow_up = {
+      previous_amount: Math.abs(pending.main.amount) / 1000,
+      previous_date: pending.main.date,
+      matched_in: "batch",
+    };
+    pending.main.amount = posted.main.amount;
+    pending.main.date = posted.main.date;
+    pending.main.cleared = "cleared";
+    pending.result.pending = undefined;
+    settled.add(pending);
+  }
+
+  const unsettled = candidates.filter((p) => !p.followUp);
+  const settledIds = await findSettledFollowUps(
+    tenant.id,
+    unsettled.map((p) => p.main.import_id!),
+  );
+  for (const plan of unsettled) {
+    const settledId = settledIds.get(plan.main.import_id!);
+    if (settledId) plan.followUp = { settledId };
+  }
+
+  const remaining = unsettled.filter((p) => !p.followUp);
+  if (remaining.length === 0) return;
+
+  const since = remaining
+    .map((p) => followUpWindowStart(p.main.date))
+    .sort()[0];
+
+  let existing: YnabTransactionDetail[];
+  try {
+    const res = await client.listTransactions(since, budgetId);
+    existing = res.data.transactions;
+  } catch (err) {
+    console.warn(
+      "Follow-up matching skipped — could not list transactions:",
+      err,
+    );
+    return;
+  }
+
+  // Pending SMS imports are the only uncleared ones; a split's amount can't
+  // be changed through the API
+  const pool = existing.filter((t) =>
+    !t.deleted &&
+    t.cleared === "uncleared" &&
+    isSmsImportId(t.import_id) &&
+    !t.subtransactions?.length
+  );
+  const used = new Set<string>();
+
+  for (const plan of remaining) {
+    const match = pool.find((t) =>
+      !used.has(t.id) &&
+      isFollowUpOf(toFollowUpSide(plan), {
+        accountId: t.account_id,
+        date: t.date,
+        amount: t.amount,
+        payeeId: t.payee_id,
+        payeeName: t.payee_name,
+        memo: t.memo,
+      })
+    );
+    if (!match) continue;
+
+    used.add(match.id);
+    plan.followUp = {
+      update: {
+        id: match.id,
+        amount: plan.main.amount,
+        date: plan.main.date,
+        cleared: "cleared",
+      },
+    };
+    plan.result.follow_up = {
+      transaction_id: match.id,
+      previous_amount: Math.abs(match.amount) / 1000,
+      previous_date: match.date,
+      matched_in: "ynab",
+    };
+  }
+}
+
+/**
+ * Pairs up SMS for money moved between our own accounts, first within the
+ * batch and then against SMS transactions already in YNAB.
+ *
+ * Within the batch, the outflow is posted as a transfer to the inflow's
+ * account and the inflow isn't posted. Against YNAB, the existing side's
+ * payee is changed to this account's transfer payee and this side isn't
+ * posted. Either way YNAB ends up with one transfer, not two transactions.
+ * An SMS with several equally likely counterparts is flagged instead.
+ */
+async function matchTransfers(
+  plans: TransactionPlan[],
+  ynab: YnabContext,
+): Promise<void> {
+  const { client, budgetId } = ynab;
+  const ownAccountIds = getOwnAccountIds(ynab);
+  const candidates = plans.filter((p) => isTransferCandidate(p, ownAccountIds));
+
+  const paired = new Set<TransactionPlan>();
+  const flagged = new Set<TransactionPlan>();
+
+  for (const outflow of candidates) {
+    if (outflow.main.amount >= 0 || paired.has(outflow)) continue;
+
+    const side = toSide(outflow);
+    const pick = pickCounterpart(
+      side,
+      candidates.filter((p) =>
+        !paired.has(p) && isTransferPair(side, toSide(p))
+      ),
+      toSide,
+    );
+    if (pick.ambiguous.length > 0) {
+      flagAmbiguousTransfer(
+        outflow,
+        pick.ambiguous.map((p) => p.result.account!),
+      );
+      flagged.add(outflow);
+      continue;
+    }
+    const inflow = pick.match;
+    if (!inflow) continue;
+
+    const outflowAccount = outflow.result.account!;
+    const inflowAccount = inflow.result.account!;
+    const payeeId = getTransferPayeeIdByAccountName(
+      inflowAccount,
+      budgetId,
+    );
+    if (!payeeId) continue;
+
+    // Transfers between budget accounts can't have a category
+    outflow.main.payee_id = payeeId;
+    delete outflow.main.payee_name;
+    delete outflow.main.category_id;
+    outflow.result.transfer_to = inflowAccount;
+    outflow.result.payee = undefined;
+    outflow.result.transfer_match = {
+      account: inflowAccount,
+      matched_in: "batch",
+    };
+
+    inflow.transfer = { account: outflowAccount };
+    inflow.result.payee = undefined;
+    inflow.result.transfer_match = {
+      account: outflowAccount,
+      matched_in: "batch",
+    };
+
+    paired.add(outflow).add(inflow);
+  }
+
+  const remaining = candidates.filter((p) => !paired.has(p) && !flagged.has(p));
+  if (remaining.length === 0) return;
+
+  const since = remaining
+    .map((p) => transferWindowStart(p.main.date))
+    .sort()[0];
+
+  let existing: YnabTransactionDetail[];
+  try {
+    const res = await client.listTransactions(since, budgetId);
+    existing = res.data.transactions;
+  } catch (err) {
+    console.warn(
+      "Transfer matching skipped — could not list transactions:",
+      err,
+    );
+    return;
+  }
+
+  // Only SMS imports: anything entered by hand is left alone
+  const pool = existing.filter((t) =>
+    !t.deleted &&
+    ownAccountIds.has(t.account_id) &&
+    isSmsImportId(t.import_id)
+  );
+  const used = new Set<string>();
+  const accountName = (id: string) =>
+    getAllAccounts(budgetId).find((a) => a.id === id)?.name ?? id;
+  const toExistingSide = (t: YnabTransactionDetail): TransferSide => ({
+    accountId: t.account_id,
+    accountName: accountName(t.account_id),
+    date: t.date,
+    amount: t.amount,
+    text: t.memo,
+  });
+
+  for (const plan of remaining) {
+    const side = toSide(plan);
+    const matches = pool.filter((t) =>
+      !used.has(t.id) && isTransferPair(side, toExistingSide(t))
+    );
+
+    // A counterpart already linked to this account means this SMS was
+    // matched before (e.g. it's being retried)
+    const pick = pickCounterpart(
+      side,
+      matches.filter((t) => !t.transfer_account_id),
+      toExistingSide,
+    );
+    if (pick.ambiguous.length > 0) {
+      flagAmbiguousTransfer(
+        plan,
+        pick.ambiguous.map((t) => accountName(t.account_id)),
+      );
+      continue;
+    }
+    const open = pick.match;
+    const linked = matches.find((t) =>
+      t.transfer_account_id === plan.main.account_id
+    );
+    const match = open ?? linked;
+    if (!match) continue;
+
+    const payeeId = findAccountByName(
+      plan.result.account!,
+      budgetId,
+    )?.transfer_payee_id;
+    if (open && !payeeId) continue;
+
+    const account = accountName(match.account_id);
+
+    used.add(match.id);
+    plan.transfer = {
+      account,
+      update: open
+        ? { id: match.id, payee_id: payeeId, category_id: null }
+        : undefined,
+    };
+    if (plan.main.amount < 0) plan.result.transfer_to = account;
+    plan.result.payee = undefined;
+    plan.result.transfer_match = {
+      account,
+      transaction_id: match.id,
+      matched_in: "ynab",
+    };
+  }
+}
+
+/**
+ * The YNAB IDs of the tenant's mapped accounts.
+ */
+function getOwnAccountIds({ budgetId, mappings }: YnabContext): Set<string> {
+  return new Set(
+    getMappedAccountNames(mappings)
+      .map((name) => getAccountIdByName(name, budgetId))
+      .filter((id): id is string => !!id),
+  );
+}
+
+/**
+ * Checks whether an SMS could be one side of a transfer between our own
+ * accounts. ATM withdrawals are already transfers to Cash.
+ */
+function isTransferCandidate(
+  plan: TransactionPlan,
+  ownAccountIds: Set<string>,
+): boolean {
+  const parsed = plan.result.ai_parsed;
+  return ownAccountIds.has(plan.main.account_id) &&
+    !plan.result.transfer_to &&
+    !plan.followUp &&
+    !!parsed && canBeOwnTransfer(parsed);
+}
+
+/**
+ * Compares each account's YNAB cleared balance with the balance in its
+ * newest posted SMS. Older SMS in the batch are skipped: their balance
+ * predates the later transactions. So are accounts with a pending SMS in
+ * the batch, whose hold is in the SMS balance but not the cleared one, and
+ * both accounts of a matched transfer, whose side YNAB creates uncleared.
+ */
+async function reconcileBalances(
+  plans: TransactionPlan[],
+  { client, budgetId }: YnabContext,
+): Promise<void> {
+  const skippedAccounts = new Set<string>();
+  for (const { main, result } of plans) {
+    if (result.pending) skippedAccounts.add(main.account_id);
+    if (result.transfer_match) {
+      skippedAccounts.add(main.account_id);
+      const other = getAccountIdByName(result.transfer_match.account, budgetId);
+      if (other) skippedAccounts.add(other);
+    }
+  }
+
+  const latest = new Map<string, TransactionPlan>();
+  for (const plan of plans) {
+    if (!plan.result.sent || plan.result.ai_parsed?.balance == null) continue;
+    if (skippedAccounts.has(plan.main.account_id)) continue;
+
+    const current = latest.get(plan.main.account_id);
+    if (!current || plan.sms.receivedAtIso >= current.sms.receivedAtIso) {
+      latest.set(plan.main.account_id, plan);
+    }
+  }
+
+  for (const [accountId, plan] of latest) {
+    plan.result.balance_check = await checkAccountBalance(client, budgetId, {
+      accountId,
+      accountName: plan.result.account ?? accountId,
+      smsBalance: plan.result.ai_parsed!.balance!,
+      date: plan.main.date,
+      importId: plan.main.import_id!,
+    });
+  }
+}
+
+/**
+ * Total of the fee and levy printed in the SMS, or null if it states no
+ * fee (a levy alone is added to the scheduled fee).
+ */
+function getStatedFee(parsed: GeminiParsedSms): number | null {
+  if (parsed.fee == null) return null;
+  return Math.round(((parsed.fee ?? 0) + (parsed.levy ?? 0)) * 100) / 100;
+}
+
+function toSide({ sms, main, result }: TransactionPlan): TransferSide {
+  return {
+    accountId: main.account_id,
+    accountName: result.account,
+    date: main.date,
+    amount: main.amount,
+    ref: result.ai_parsed?.transaction_ref,
+    text: sms.text,
+  };
+}
+
+/**
+ * Leaves an SMS with several possible transfer counterparts unmatched,
+ * flagged and with the candidates' accounts in its memo for review.
+ */
+function flagAmbiguousTransfer(
+  plan: TransactionPlan,
+  accounts: string[],
+): void {
+  const names = [...new Set(accounts)];
+  plan.main.memo = `${plan.main.memo} | Transfer? ${names.join(" or ")}`;
+  plan.result.memo = plan.main.memo;
+  plan.main.flag_color ??= "yellow";
+  plan.result.transfer_candidates = names;
+}
+
+function toFollowUpSide({ main, result }: TransactionPlan): FollowUpSide {
+  return {
+    accountId: main.account_id,
+    date: main.date,
+    amount: main.amount,
+    payeeId: main.payee_id,
+    payeeName: result.payee ?? result.payee_extracted,
+    ref: result.ai_parsed?.transaction_ref,
+    memo: main.memo,
+  };
+}
+
+/**
+ * Gives a batch's transactions YNAB-format import IDs, continuing the count
+ * of each account's existing imports of the same amount on the same day
+ * (see pickYnabImportId). Runs after the in-batch duplicate check, which
+ * uses the SMS's own ID. An account whose transactions can't be listed
+ * keeps the SMS's own IDs: a guessed count could drop a transaction.
+ */
+async function assignYnabImportIds(
+  plans: TransactionPlan[],
+  { client, budgetId }: YnabContext,
+): Promise<void> {
+  const since = new Map<string, string>();
+  for (const { main } of plans) {
+    const earliest = since.get(main.account_id);
+    if (!earliest || main.date < earliest) {
+      since.set(main.account_id, main.date);
+    }
+  }
+
+  const existing = new Map<string, YnabTransactionDetail[]>();
+  for (const [accountId, date] of since) {
+    try {
+      const res = await client.listAccountTransactions(
+        accountId,
+        date,
+        budgetId,
+      );
+      existing.set(accountId, res.data.transactions);
+    } catch (err) {
+      console.warn(
+        "YNAB import IDs skipped — could not list transactions:",
+        err,
+      );
+    }
+  }
+
+  const taken = new Set<string>();
+  for (const plan of plans) {
+    const { main } = plan;
+    const transactions = existing.get(main.account_id);
+    if (!transactions) continue;
+
+    const importId = pickYnabImportId(
+      {
+        amount: main.amount,
+        date: main.date,
+        ref: plan.result.ai_parsed?.transaction_ref,
+        memo: main.memo,
+      },
+      transactions,
+      taken,
+    );
+    main.import_id = importId;
+    plan.result.import_id = importId;
+    if (plan.fee) {
+      plan.fee.import_id = deriveImportId(
+        importId,
+        plan.result.fee?.source === "placeholder" ? "plt" : "fee",
+      );
+    }
+    if (plan.smsFee) plan.smsFee.import_id = deriveImportId(importId, "ntf");
+  }
+}
+
+/**
+ * Folds an outflow's fee and SMS-fee transactions into its main transaction
+ * as subtransactions, so YNAB shows the single debit the statement does.
+ * Transfers keep separate fee rows: both sides of a transfer must carry the
+ * same amount (outflows that may still be matched to one are never passed
+ * in). So do pending transactions: the API can't change a split's
+ * amount, and the posted SMS must.
+ */
+function foldFeesIntoSplit(plan: TransactionPlan): void {
+  const { main, result } = plan;
+  const fees = [plan.fee, plan.smsFee]
+    .filter((tx): tx is YnabTransaction => !!tx);
+  if (fees.length === 0 || main.amount >= 0 || plan.followUp) return;
+  if (plan.transfer || result.transfer_to || result.transfer_match) return;
+  if (result.pending) return;
+
+  const toSubtransaction = (tx: YnabTransaction): YnabSubTransaction => ({
+    amount: tx.amount,
+    payee_id: tx.payee_id,
+    payee_name: tx.payee_name,
+    category_id: tx.category_id,
+    memo: tx.memo,
+  });
+
+  main.subtransactions = [main, ...fees].map(toSubtransaction);
+  main.amount = main.subtransactions.reduce((sum, sub) => sum + sub.amount, 0);
+  // The parent of a split has no category of its own
+  delete main.category_id;
+
+  plan.fee = undefined;
+  plan.smsFee = undefined;
+  result.split = true;
+}
+
+/**
+ * The transactions a plan creates — its main transaction is left out when
+ * the other side of a transfer already records it.
+ */
+function plannedTransactions(plan: TransactionPlan): YnabTransaction[] {
+  if (plan.followUp) return [];
+  return [plan.transfer ? undefined : plan.main, plan.fee, plan.smsFee]
+    .filter((tx): tx is YnabTransaction => !!tx);
+}
+
+/**
+ * Posts the planned transactions in one bulk call and fills in each plan's
+ * result. If the call fails, every plan in it is marked as a YNAB error.
+ */
+async function submitPlans(
+  plans: TransactionPlan[],
+  { client, budgetId }: YnabContext,
+): Promise<void> {
+  if (plans.length === 0) return;
+
+  const transactions = plans.flatMap(plannedTransactions);
+  const updates = plans
+    .flatMap((p) => [p.transfer?.update, p.followUp?.update])
+    .filter((u): u is YnabTransactionUpdate => !!u);
+
+  try {
+    const res = transactions.length > 0
+      ? await client.createTransactions(transactions, budgetId)
+      : undefined;
+    if (updates.length > 0) {
+      await client.updateTransactions(updates, budgetId);
+    }
+
+    const idByImportId = new Map<string, string>();
+    for (const tx of res?.data.transactions ?? []) {
+      if (tx.import_id) idByImportId.set(tx.import_id, tx.id);
+    }
+    const duplicates = new Set(res?.data.duplicate_import_ids ?? []);
+
+    for (const plan of plans) {
+      const { main, fee, smsFee, result } = plan;
+      const mainId = plan.followUp
+        ? plan.followUp.update?.id ?? plan.followUp.settledId ??
+          (plan.followUp.importId && idByImportId.get(plan.followUp.importId))
+        : plan.transfer
+        ? result.transfer_match?.transaction_id
+        : main.import_id && idByImportId.get(main.import_id);
+      if (result.follow_up && mainId) result.follow_up.transaction_id = mainId;
+
+      result.sent = true;
+      result.transaction_ids = mainId ? [mainId] : [];
+      result.duplicate_import_ids = plan.followUp?.settledId
+        ? [main.import_id!]
+        : plannedTransactions(plan)
+          .map((tx) => tx.import_id)
+          .filter((id): id is string => !!id && duplicates.has(id));
+
+      if (result.fee) {
+        result.fee.transaction_id = result.split
+          ? mainId || undefined
+          : fee?.import_id && idByImportId.get(fee.import_id);
+      }
+      if (result.sms_fee) {
+        result.sms_fee.transaction_id = result.split
+          ? mainId || undefined
+          : smsFee?.import_id && idByImportId.get(smsFee.import_id);
+      }
+    }
+  } catch (err) {
+    console.error("YNAB error:", err);
+    const reason = ynabErrorReason(err);
+    for (const plan of plans) {
+      plan.result.sent = false;
+      plan.result.reason = reason;
+      plan.result.detail = String(err);
+    }
+  }
+}
+
+/**
+ * Deletes the transaction a reversal undoes, with its fee rows, instead of
+ * importing the reversal. In a dry run the deletions are only listed.
+ */
+async function deleteReversed(
+  client: YnabClient,
+  budgetId: string,
+  original: OriginalTransaction,
+  result: YnabResult,
+  dryRun?: boolean,
+): Promise<YnabResult> {
+  if (dryRun) {
+    return {
+      ...result,
+      reason: "Dry run",
+      planned: { deletes: originalTransactionIds(original) },
+    };
+  }
+
+  try {
+    const deleted = await deleteOriginalTransaction(client, budgetId, original);
+    return {
+      ...result,
+      sent: true,
+      transaction_ids: [],
+      reversal: { ...result.reversal!, deleted_ids: deleted },
+    };
+  } catch (err) {
+    console.error("Failed to delete reversed transaction:", err);
+    return { ...result, reason: ynabErrorReason(err), detail: String(err) };
+  }
+}
+
+/**
+ * Names a failed post for the result: a rate limit or outage clears up by
+ * itself, a rejected token or transaction doesn't.
+ */
+function ynabErrorReason(err: unknown): string {
+  if (err instanceof YnabRateLimitError) return "YNAB rate limited";
+  if (err instanceof YnabAuthError) return "YNAB token rejected";
+  if (err instanceof YnabValidationError) return "YNAB rejected transaction";
+  return "YNAB error";
+}
+
+/**
+ * Maps items with at most `limit` calls in flight, preserving order.
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  return results;
+}
@@ -0,0 +1,337 @@
+/**
+ * PROMPT — The SMS parsing prompt and response handling shared by all LLMs.
+ *
+ * Every LLM backend sends the same prompt and must answer with the same JSON,
+ * so switching models never changes what the webhook receives.
+ */
+
+import { normalizeCurrency } from "./currency.ts";
+import {
+  formatLocalDateTime,
+  formatLocalTime,
+  localDate,
+  parseLocalDateTime,
+} from "./parsers.ts";
+import type {
+  AiContext,
+  GeminiParsedSms,
+  GeminiResult,
+  ParseConfidence,
+} from "./sms-parser.ts";
+
+// The transfer_type values the prompt allows
+const TRANSFER_TYPES = new Set([
+  "same_network",
+  "cross_network",
+  "to_bank",
+  "to_mobile",
+  "withdrawal",
+  "airtime",
+  "bill_payment",
+  "pos",
+  "unknown",
+]);
+
+/**
+ * Builds the SMS parsing prompt with user's YNAB data.
+ */
+export function buildPrompt(smsText: string, context: AiContext): string {
+  const categoryList = context.categories.slice(0, 100).join(", ");
+  const payeeList = context.payees.slice(0, 200).join(", ");
+
+  // When the SMS arrived, in the configured timezone
+  const fallbackTime = formatLocalTime(context.receivedAt);
+  const receivedDate = localDate(context.receivedAt);
+
+  // Determine the sender type for transfer_type detection
+  // (helps AI know if transfer is same_network or cross_network)
+  const senderInfo = context.sender
+    ? `\nSMS SENDER: ${context.sender} (use this to determine same_network vs cross_network)`
+    : "";
+
+  return `You are a financial SMS parser for Zambian banks and mobile money services.
+
+TASK: Analyze this SMS and extract transaction details.
+${senderInfo}
+
+USER'S YNAB CATEGORIES:
+${categoryList}
+
+USER'S EXISTING YNAB PAYEES:
+${payeeList}
+
+RULES:
+
+1. is_transaction:
+   - TRUE only for real money movements (sent, received, paid, withdrawn, deposited, credited, debited, purchased, top-up)
+   - FALSE for: balance checks, promotions, OTPs, conversations, loan offers
+
+2. amount: Extract the TRANSACTION amount, NOT the remaining balance
+
+3. direction:
+   - "inflow" = money received, deposited, credited, refunded
+   - "outflow" = money sent, paid, withdrawn, purchased, debited
+
+4. payee:
+   - Extract the FULL person/business name ONLY if EXPLICITLY mentioned in the SMS
+   - Do NOT guess or infer a payee — if not named, set payee to null
+   - Do NOT abbreviate names
+   - Check if it matches an existing payee from the list (fuzzy match OK)
+   - If MATCHED: set payee to the EXACT name from the payee list, is_new_payee = false
+   - If NOT MATCHED: set payee to the FULL name you extracted, is_new_payee = true
+   - If NO payee mentioned: payee = null, is_new_payee = false
+
+5. category:
+   - MUST exactly match one of the categories listed above (case-insensitive OK)
+   - If unsure, set to null
+   - Generic bank debits/credits → category = null
+   - Transfers between accounts → category = null
+   - Only categorize when CONFIDENT about the purchase type
+
+6. memo: Format as "[Action] [Payee] | [HH:MM] | Ref: [ID] | Bal: [Balance]"
+   - Use the FULL payee name (do NOT abbreviate)
+   - ALWAYS include transaction TIME (HH:MM format)
+   - Look for time in SMS first, if not found use: ${fallbackTime}
+   - Do NOT include dates, only TIME
+
+7. transaction_ref: Extract the transaction/reference ID if present
+   - Look for patterns like "TID:", "Ref:", "Txn ID:"
+   - Return ONLY the ID part, not the label
+   - This SMS's OWN reference: for a reversal, null if the only ID is the reversed transaction's
+
+8. transfer_type: CRITICAL — Determine the transfer type for fee calculation:
+   - "same_network" = Same provider (Airtel→Airtel, MTN→MTN, Zamtel→Zamtel)
+   - "cross_network" = Different mobile money (Airtel→MTN, MTN→Airtel, etc.)
+   - "to_bank" = Mobile money → Bank account
+   - "to_mobile" = Bank → Mobile money
+   - "withdrawal" = Cash withdrawal at agent or ATM
+   - "airtime" = Airtime or data purchase
+   - "bill_payment" = Utility bills, merchants, till payments
+   - "pos" = Point of sale / debit card purchase (look for "POS" in SMS)
+   - "unknown" = ONLY use if truly cannot determine
+
+   ZAMBIAN MOBILE PHONE PREFIXES (may appear with or without leading 0):
+   - Airtel: 097x, 077x, 97x, 77x (e.g., 0971234567, 971234567, 0772345678)
+   - MTN: 096x, 076x, 96x, 76x (e.g., 0961234567, 961234567)
+   - Zamtel: 095x, 075x, 95x, 75x (e.g., 0951234567, 951234567)
+
+   HOW TO DETERMINE transfer_type:
+   1. Look for a phone number in the SMS (the recipient's number)
+   2. Check the FIRST 2-3 DIGITS to identify the network:
+      - 97, 77, 097, 077 → Airtel
+      - 96, 76, 096, 076 → MTN
+      - 95, 75, 095, 075 → Zamtel
+   3. Compare recipient network to SMS sender:
+      - If sender is "AirtelMoney" and recipient is 97x/77x → "same_network"
+      - If sender is "AirtelMoney" and recipient is 96x/76x → "cross_network"
+      - If sender is "MoMo" and recipient is 96x/76x → "same_network"
+      - If sender is "MoMo" and recipient is 97x/77x → "cross_network"
+
+   DETECTION HINTS:
+   - "POS" or "at POS" in SMS → pos
+   - "ATM" or "withdraw" or "agent" → withdrawal
+   - "Debit Card transaction" → withdrawal (this is Absa ATM)
+   - "top-up" or "airtime" or "data" → airtime
+   - "till" or "merchant" → bill_payment
+   - Bank account number (not phone) → to_bank
+
+   ABSA BANK SMS PATTERNS:
+   - "at POS" → pos (point of sale purchase)
+   - "Debit Card transaction" → withdrawal (ATM cash withdrawal, K20 fee)
+   - "has been credited" → inflow (money received)
+   - "has been debited" → outflow (transfer to mobile money or other)
+
+9. balance: The account balance AFTER this transaction, if the SMS states it
+   - Look for "bal", "balance", "avail bal", "new balance"
+   - Return the number only; null if no balance is mentioned
+
+10. fee / levy: Charges the SMS itself states for this transaction
+   - fee: "Fee", "Charge", "Charges" (e.g. "Fee ZMW 1.30", "Charges: K10")
+   - levy: "Levy", "Govt levy", "Mobile money levy"
+   - Return numbers only; null when not stated. Never estimate them.
+
+11. currency: ISO 4217 code of the transaction amount as written in the SMS
+   - "ZMW", "K" or "Kwacha" → "ZMW"; "USD", "US$" or "$" → "USD"; likewise "EUR", "GBP", "ZAR"
+   - Do NOT convert the amount; report it in this currency
+   - null if the SMS shows no currency
+
+12. confidence: How sure you are of amount, direction, payee and category, each from 0 to 1
+   - 1.0 = stated explicitly and unambiguously in the SMS (or an exact list match)
+   - 0.5 = a reasonable guess; below 0.5 = mostly guessing
+   - null for a field you set to null
+
+13. is_reversal / reversed_ref: Reversals and refunds of an earlier transaction
+   - is_reversal = true for "has been reversed", "reversal of", "refund of", card refunds
+   - reversed_ref = the reference ID of the ORIGINAL transaction being reversed/refunded; null if not stated
+   - direction is the direction of THIS SMS's money movement (usually "inflow")
+   - Otherwise is_reversal = false, reversed_ref = null
+
+14. is_pending: true when the SMS says the transaction is only authorised, pending, reserved or on hold
+   - A separate "posted"/"completed" SMS usually follows; set is_pending = false for that one
+   - false for ordinary completed transactions
+
+15. transaction_date: The date the SMS says the transaction happened, if it states one
+   - "YYYY-MM-DD", or "YYYY-MM-DDTHH:MM" when the SMS states the time too
+   - Numeric dates are day first: 04/01/2026 = 4 January 2026
+   - A date without a year is in the year of ${
+    receivedDate || "the received date"
+  }
+   - null if the SMS states no date; do NOT fill in the received date
+
+SMS MESSAGE:
+"""
+${smsText}
+"""
+
+FALLBACK TIME (use if no time in SMS): ${fallbackTime}
+
+Respond with JSON only:
+{
+  "is_transaction": true/false,
+  "reason": "brief explanation",
+  "amount": number or null,
+  "currency": "ISO 4217 code" or null,
+  "direction": "inflow" or "outflow" or null,
+  "payee": "matched or new payee name" or null,
+  "is_new_payee": true/false,
+  "category": "exact category name from list" or null,
+  "memo": "clean description" or null,
+  "transaction_ref": "reference ID" or null,
+  "is_reversal": true/false,
+  "reversed_ref": "reference ID of the reversed transaction" or null,
+  "is_pending": true/false,
+  "transaction_date": "YYYY-MM-DD or YYYY-MM-DDTHH:MM" or null,
+  "balance": number or null,
+  "fee": number or null,
+  "levy": number or null,
+  "transfer_type": "same_network" | "cross_network" | "to_bank" | "to_mobile" | "withdrawal" | "airtime" | "bill_payment" | "pos" | "unknown" or null,
+  "confidence": { "amount": 0-1 or null, "direction": 0-1 or null, "payee": 0-1 or null, "category": 0-1 or null }
+}`;
+}
+
+/**
+ * Turns an LLM's text answer into a parse result.
+ * Strips markdown code fences and validates the required fields.
+ */
+export function parseModelJson(
+  textContent: string,
+  backendLabel: string,
+): GeminiResult {
+  // Clean markdown code blocks if present
+  const cleanedJson = textContent
+    .replace(/```json\s*/g, "")
+    .replace(/```\s*/g, "")
+    .trim();
+
+  try {
+    const parsed: GeminiParsedSms = JSON.parse(cleanedJson);
+
+    if (typeof parsed.is_transaction !== "boolean") {
+      return {
+        success: false,
+        error: "Invalid response: missing is_transaction field",
+        raw_response: textContent,
+      };
+    }
+
+    if (typeof parsed.is_new_payee !== "boolean") {
+      parsed.is_new_payee = true;
+    }
+
+    // Models sometimes answer with the wrong types; later steps rely on
+    // these, so anything else means "not stated"
+    if (typeof parsed.reason !== "string") parsed.reason = "";
+    for (const key of ["amount", "balance", "fee", "levy"] as const) {
+      parsed[key] = toNumber(parsed[key]);
+    }
+    for (
+      const key of ["payee", "category", "memo", "transaction_ref"] as const
+    ) {
+      parsed[key] = toText(parsed[key]);
+    }
+    if (parsed.direction !== "inflow" && parsed.direction !== "outflow") {
+      parsed.direction = null;
+    }
+    if (!TRANSFER_TYPES.has(parsed.transfer_type as string)) {
+      parsed.transfer_type = null;
+    }
+
+    parsed.currency = normalizeCurrency(
+      typeof parsed.currency === "string" ? parsed.currency : null,
+    );
+
+    parsed.confidence = normalizeConfidence(parsed.confidence);
+
+    parsed.is_reversal = parsed.is_reversal === true;
+    parsed.is_pending = parsed.is_pending === true;
+    parsed.transaction_date = normalizeStatedDate(parsed.transaction_date);
+    parsed.reversed_ref = parsed.is_reversal &&
+        typeof parsed.reversed_ref === "string" && parsed.reversed_ref
+      ? parsed.reversed_ref
+      : null;
+
+    return { success: true, parsed, raw_response: textContent };
+  } catch (parseError) {
+    return {
+      success: false,
+      error: `Failed to parse ${backendLabel} JSON: ${parseError}`,
+      raw_response: textContent,
+    };
+  }
+}
+
+/**
+ * Checks whether an LLM request was aborted by its AbortSignal.timeout.
+ */
+export function isTimeoutError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "TimeoutError";
+}
+
+/**
+ * A number, or a string holding only one ("45.00"); otherwise null.
+ */
+function toNumber(value: unknown): number | null {
+  const n = typeof value === "string" && /^\s*-?\d+(?:\.\d+)?\s*$/.test(value)
+    ? Number(value)
+    : value;
+  return typeof n === "number" && Number.isFinite(n) ? n : null;
+}
+
+/**
+ * A non-blank string; otherwise null.
+ */
+function toText(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value : null;
+}
+
+/**
+ * Keeps a stated date that is a real date, in the "YYYY-MM-DD[THH:MM]"
+ * format; anything else means "not stated".
+ */
+function normalizeStatedDate(value: unknown): string | null {
+  const local = typeof value === "string"
+    ? parseLocalDateTime(value)
+    : undefined;
+  return local ? formatLocalDateTime(local) : null;
+}
+
+/**
+ * Keeps confidence ratings that are numbers, clamped to 0–1; anything else
+ * means "no rating".
+ */
+function normalizeConfidence(value: unknown): ParseConfidence {
+  const raw: Record<string, unknown> =
+    typeof value === "object" && value !== null ? { ...value } : {};
+  const rating = (key: keyof ParseConfidence) => {
+    const n = raw[key];
+    return typeof n === "number" && Number.isFinite(n)
+      ? Math.min(1, Math.max(0, n))
+      : null;
+  };
+  return {
+    amount: rating("amount"),
+    direction: rating("direction"),
+    payee: rating("payee"),
+    category: rating("category"),
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * RECONCILE — Checks YNAB balances against the balance stated in the SMS.
+ *
+ * Most provider SMS end with the account balance ("Your bal is ZMW ...").
+ * After an SMS is imported, that balance is compared with the YNAB
+ * account's cleared balance; a difference means a transaction or fee is
+ * missing or wrong.
+ *
+ *   RECONCILE_MODE=check   (default) Report discrepancies in the result/log
+ *   RECONCILE_MODE=adjust  Also post a flagged adjustment for the difference
+ *   RECONCILE_MODE=off     Don't compare balances
+ */
+
+import { toMilliunits } from "./gemini.ts";
+import { deriveImportId } from "./import-ids.ts";
+import { getCategoryIdByName } from "./ynab-lookup.ts";
+import { createYnabClient, YnabTransaction } from "./ynab.ts";
+
+export type ReconcileMode = "off" | "check" | "adjust";
+
+export const reconcileMode: ReconcileMode = parseReconcileMode(
+  Deno.env.get("RECONCILE_MODE"),
+);
+
+// Same payee and category YNAB uses for its own reconciliation adjustments
+const ADJUSTMENT_PAYEE_NAME = "Reconciliation Balance Adjustment";
+const ADJUSTMENT_CATEGORY_NAME = "Inflow: Ready to Assign";
+
+export interface BalanceCheck {
+  sms_balance: number;
+  ynab_cleared_balance: number;
+  difference: number; // SMS balance minus YNAB cleared balance
+  adjustment_transaction_id?: string;
+  error?: string;
+}
+
+export interface BalanceCheckInput {
+  accountId: string;
+  accountName: string;
+  smsBalance: number;
+  date: string; // YYYY-MM-DD, for the adjustment
+  importId: string; // The SMS's import ID, to derive the adjustment's
+}
+
+/**
+ * Compares an account's cleared balance in YNAB with the balance from the
+ * SMS, and in adjust mode posts the difference as a flagged adjustment.
+ * Never throws; failures are reported in the returned check.
+ */
+export async function checkAccountBalance(
+  client: ReturnType<typeof createYnabClient>,
+  budgetId: string,
+  input: BalanceCheckInput,
+): Promise<BalanceCheck> {
+  const check: BalanceCheck = {
+    sms_balance: input.smsBalance,
+    ynab_cleared_balance: 0,
+    difference: 0,
+  };
+
+  let clearedMilli: number;
+  try {
+    const res = await client.getAccount(input.accountId, budgetId);
+    clearedMilli = res.data.account.cleared_balance;
+  } catch (err) {
+    console.error("Balance check failed:", err);
+    check.error = String(err);
+    return check;
+  }
+
+  const differenceMilli = toMilliunits(input.smsBalance) - clearedMilli;
+  check.ynab_cleared_balance = clearedMilli / 1000;
+  check.difference = differenceMilli / 1000;
+
+  if (differenceMilli === 0) return check;
+
+  console.warn("Balance discrepancy:", {
+    account: input.accountName,
+    ...check,
+  });
+
+  if (reconcileMode !== "adjust") return check;
+
+  const adjustment: YnabTransaction = {
+    account_id: input.accountId,
+    date: input.date,
+    amount: differenceMilli,
+    payee_name: ADJUSTMENT_PAYEE_NAME,
+    memo: `SMS balance ${input.smsBalance.toFixed(2)} vs YNAB ${
+      check.ynab_cleared_balance.toFixed(2)
+    } - verify`,
+    cleared: "cleared",
+    approved: false,
+    flag_color: "red",
+    import_id: deriveImportId(input.importId, "rec"),
+  };
+
+  const categoryId = getCategoryIdByName(ADJUSTMENT_CATEGORY_NAME, budgetId);
+  if (categoryId) adjustment.category_id = categoryId;
+
+  try {
+    const res = await client.createTransactions([adjustment], budgetId);
+    check.adjustment_transaction_id = res.data.transactions?.[0]?.id;
+  } catch (err) {
+    console.error("Failed to post balance adjustment:", err);
+    check.error = String(err);
+  }
+
+  return check;
+}
+
+function parseReconcileMode(value?: string): ReconcileMode {
+  return value === "off" || value === "adjust" ? value : "check";
+}
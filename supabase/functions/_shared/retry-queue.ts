@@ -0,0 +1,228 @@
+/**
+ * RETRY QUEUE — Durable storage for SMS that failed to reach YNAB.
+ *
+ * Transient failures (YNAB errors, LLM outages) are queued with their
+ * failure reason and retried with exponential backoff by the sms-retry
+ * function. Retries replay the stored normalized SMS, so the import ID —
+ * and YNAB's deduplication — stays the same.
+ */
+
+import { recordIngestion } from "./ingestion-log.ts";
+import { processSms, SmsInput, YnabResult } from "./pipeline.ts";
+import { isLlmConfigured } from "./sms-parser.ts";
+import { getSupabaseClient } from "./supabase.ts";
+import { DEFAULT_TENANT_ID, getTenant } from "./tenants.ts";
+
+// Backoff: 5 min, 10 min, 20 min… capped at 12 hours
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+const RETRY_MAX_DELAY_MS = 12 * 60 * 60 * 1000;
+const RETRY_MAX_ATTEMPTS = Number(Deno.env.get("RETRY_MAX_ATTEMPTS")) || 8;
+
+// Failures worth retrying — everything else won't change on a second try
+const RETRYABLE_REASONS = new Set([
+  "Failed to fetch YNAB data",
+  "YNAB error",
+  "YNAB rate limited",
+  "No account resolved",
+  "AI parsing failed",
+  "Processing failed",
+]);
+
+export type RetryStatus = "pending" | "succeeded" | "dead";
+
+export interface QueuedSms {
+  id: string;
+  tenant_id: string;
+  source: string | null;
+  sender: string;
+  received_at: string;
+  text: string;
+  raw_payload: unknown;
+  status: RetryStatus;
+  failure_reason: string;
+  failure_detail: string | null;
+  attempts: number;
+  next_attempt_at: string;
+}
+
+export interface RetryOutcome {
+  id: string;
+  status: RetryStatus;
+  attempts: number;
+  ingestion_id?: string;
+  result: YnabResult;
+}
+
+/**
+ * Checks whether a failed result is worth retrying later.
+ */
+export function isRetryable(result: YnabResult): boolean {
+  if (result.sent || !result.reason) return false;
+  if (RETRYABLE_REASONS.has(result.reason)) return true;
+
+  // The LLM failed and the rule parser didn't recognise the SMS:
+  // the LLM may well parse it once it's back
+  return result.reason === "Not a transaction" &&
+    result.parser === "rules" &&
+    Boolean(result.parser_fallback) &&
+    isLlmConfigured();
+}
+
+/**
+ * Adds a failed SMS to the queue. Returns the queue ID, or undefined.
+ */
+export async function enqueueRetry(
+  sms: SmsInput,
+  rawPayload: unknown,
+  result: YnabResult,
+  ingestionId?: string,
+  tenantId: string = DEFAULT_TENANT_ID,
+): Promise<string | undefined> {
+  const db = getSupabaseClient();
+  if (!db) return undefined;
+
+  const { data, error } = await db
+    .from("sms_retry_queue")
+    .insert({
+      tenant_id: tenantId,
+      source: sms.source,
+      sender: sms.sender,
+      received_at: sms.receivedAtIso,
+      text: sms.text,
+      raw_payload: rawPayload,
+      ingestion_id: ingestionId ?? null,
+      failure_reason: result.reason ?? "Unknown",
+      failure_detail: result.detail ?? null,
+      next_attempt_at: nextAttemptAt(0),
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error("Failed to queue SMS for retry:", error.message);
+    return undefined;
+  }
+
+  return data.id;
+}
+
+/**
+ * Logs a processed SMS and queues it for retry if it failed transiently.
+ */
+export async function recordOutcome(
+  sms: SmsInput,
+  rawPayload: unknown,
+  result: YnabResult,
+  tenantId: string = DEFAULT_TENANT_ID,
+): Promise<{ ingestionId?: string; retryId?: string }> {
+  const ingestionId = await recordIngestion(sms, rawPayload, result, tenantId);
+  const retryId = isRetryable(result)
+    ? await enqueueRetry(sms, rawPayload, result, ingestionId, tenantId)
+    : undefined;
+  return { ingestionId, retryId };
+}
+
+/**
+ * Gets a single queued SMS by ID.
+ */
+export async function getQueuedSms(id: string): Promise<QueuedSms | null> {
+  const db = getSupabaseClient();
+  if (!db) throw new Error("Supabase not configured");
+
+  const { data, error } = await db
+    .from("sms_retry_queue")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load queued SMS: ${error.message}`);
+  return data as QueuedSms | null;
+}
+
+/**
+ * Lists pending SMS whose next attempt is due, oldest first.
+ */
+export async function listDueRetries(limit: number): Promise<QueuedSms[]> {
+  const db = getSupabaseClient();
+  if (!db) throw new Error("Supabase not configured");
+
+  const { data, error } = await db
+    .from("sms_retry_queue")
+    .select("*")
+    .eq("status", "pending")
+    .lte("next_attempt_at", new Date().toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(limit);
+
+  if (error) throw new Error(`Failed to list retries: ${error.message}`);
+  return (data ?? []) as QueuedSms[];
+}
+
+/**
+ * Re-processes a queued SMS for the tenant that sent it and records the
+ * attempt. On a transient failure the next attempt is pushed back; a
+ * permanent failure, or reaching RETRY_MAX_ATTEMPTS, marks the SMS dead.
+ */
+export async function retryQueuedSms(item: QueuedSms): Promise<RetryOutcome> {
+  const sms: SmsInput = {
+    source: item.source ?? "retry",
+    sender: item.sender,
+    text: item.text,
+    receivedAtIso: item.received_at,
+  };
+
+  // A tenant removed from TENANTS can't be retried
+  const tenant = getTenant(item.tenant_id);
+  const result: YnabResult = tenant
+    ? await processSms(sms, { tenant })
+    : { sent: false, reason: "Unknown tenant", detail: item.tenant_id };
+  const ingestionId = await recordIngestion(
+    sms,
+    item.raw_payload,
+    result,
+    item.tenant_id,
+  );
+
+  const attempts = item.attempts + 1;
+  const retryable = !result.sent && isRetryable(result);
+  const status: RetryStatus = result.sent
+    ? "succeeded"
+    : retryable && attempts < RETRY_MAX_ATTEMPTS
+    ? "pending"
+    : "dead";
+
+  const db = getSupabaseClient();
+  if (db) {
+    const now = new Date().toISOString();
+    const { error } = await db
+      .from("sms_retry_queue")
+      .update({
+        status,
+        attempts,
+        last_attempt_at: now,
+        updated_at: now,
+        next_attempt_at: status === "pending"
+          ? nextAttemptAt(attempts)
+          : item.next_attempt_at,
+        ...(!result.sent && {
+          failure_reason: result.reason ?? item.failure_reason,
+          failure_detail: result.detail ?? null,
+        }),
+      })
+      .eq("id", item.id);
+
+    if (error) {
+      console.error("Failed to update retry queue:", error.message);
+    }
+  }
+
+  return { id: item.id, status, attempts, ingestion_id: ingestionId, result };
+}
+
+function nextAttemptAt(attempts: number): string {
+  const delay = Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** attempts,
+    RETRY_MAX_DELAY_MS,
+  );
+  return new Date(Date.now() + delay).toISOString();
+}
@@ -0,0 +1,278 @@
+/**
+ * REVERSALS — Ties reversal and refund SMS to the transaction they undo.
+ *
+ * "Transaction ID ABC123 has been reversed" names the original's reference.
+ * The original is looked up in the ingestion log by that reference, then
+ * in YNAB by the reference in its memo, and handled per REVERSAL_MODE:
+ *
+ *   REVERSAL_MODE=offset  (default) Post the refund as an inflow with the
+ *                         original's payee and category, so they cancel out
+ *   REVERSAL_MODE=delete  Delete the original and its fee rows instead
+ *   REVERSAL_MODE=off     Import reversals like any other inflow
+ *
+ * When the original can't be found the SMS is imported as a plain inflow —
+ * unless an earlier reversal of the same reference was already applied: a
+ * redelivered reversal is a duplicate, whether or not its original is left.
+ */
+
+import { isFeeImportId } from "./import-ids.ts";
+import { addDays } from "./parsers.ts";
+import { getSupabaseClient } from "./supabase.ts";
+import {
+  createYnabClient,
+  YnabNotFoundError,
+  YnabTransactionDetail,
+} from "./ynab.ts";
+
+export type ReversalMode = "off" | "offset" | "delete";
+
+export const reversalMode: ReversalMode = parseReversalMode(
+  Deno.env.get("REVERSAL_MODE"),
+);
+
+// How far back YNAB is searched for the original (days before the reversal)
+const REVERSAL_LOOKBACK_DAYS = Number(Deno.env.get("REVERSAL_LOOKBACK_DAYS")) ||
+  60;
+
+export interface OriginalTransaction {
+  transaction: YnabTransactionDetail;
+  fee_transaction_ids: string[]; // Its transfer-fee and SMS-fee rows
+  found_in: "ingestion_log" | "ynab";
+}
+
+// A reversal of the same reference handled before, from the ingestion log
+export interface AppliedReversal {
+  action: "offset" | "delete";
+  original_transaction_id?: string;
+  transaction_id?: string; // The offset's own transaction
+  deleted_ids?: string[];
+}
+
+export interface ReversalLookup {
+  ref: string; // The original's transaction_ref
+  accountId: string; // The account the reversal SMS is for
+  date: string; // YYYY-MM-DD of the reversal
+}
+
+// Memo markers of the transactions reversals create
+const REVERSES_MARKER = " | Reverses ";
+const NOT_FOUND_MARKER = " | Reversed Ref ";
+
+// The sms_ingestions columns read for a lookup
+interface IngestionRefRow {
+  transaction_id: string;
+  fee_transaction_id: string | null;
+  sms_fee_transaction_id: string | null;
+  is_reversal: boolean | null;
+}
+
+// The sms_ingestions columns read for an applied reversal
+interface AppliedReversalRow {
+  transaction_id: string | null;
+  reversal: Omit<AppliedReversal, "transaction_id"> | null;
+}
+
+/**
+ * Finds an earlier reversal of `ref` that was offset or deleted. Needs the
+ * database; throws if it can't be searched, so the SMS is retried rather
+ * than imported as a new inflow.
+ */
+export async function findAppliedReversal(
+  tenantId: string,
+  ref: string,
+): Promise<AppliedReversal | undefined> {
+  const db = getSupabaseClient();
+  if (!db) return undefined;
+
+  const { data, error } = await db
+    .from("sms_ingestions")
+    .select("transaction_id, reversal:result->reversal")
+    .eq("tenant_id", tenantId)
+    .eq("status", "sent")
+    .eq("ai_parsed->>is_reversal", "true")
+    .eq("ai_parsed->>reversed_ref", ref)
+    .in("result->reversal->>action", ["offset", "delete"])
+    .order("created_at", { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to search applied reversals: ${error.message}`);
+  }
+
+  const row = (data ?? [])[0] as AppliedReversalRow | undefined;
+  if (!row?.reversal) return undefined;
+
+  return {
+    action: row.reversal.action,
+    original_transaction_id: row.reversal.original_transaction_id,
+    transaction_id: row.transaction_id ?? undefined,
+    deleted_ids: row.reversal.deleted_ids,
+  };
+}
+
+/**
+ * Finds the transaction a reversal undoes. Never throws: a failed lookup is
+ * logged and treated as not found.
+ */
+export async function findOriginalTransaction(
+  client: ReturnType<typeof createYnabClient>,
+  budgetId: string,
+  tenantId: string,
+  lookup: ReversalLookup,
+): Promise<OriginalTransaction | undefined> {
+  try {
+    return await findInIngestionLog(client, budgetId, tenantId, lookup) ??
+      await findInYnab(client, budgetId, lookup);
+  } catch (err) {
+    console.error("Failed to look up reversed transaction:", err);
+    return undefined;
+  }
+}
+
+/**
+ * The IDs deleting an original removes: its fee rows first, so a failure
+ * part-way leaves the original in place for the retry to find.
+ */
+export function originalTransactionIds(
+  original: OriginalTransaction,
+): string[] {
+  return [...original.fee_transaction_ids, original.transaction.id];
+}
+
+/**
+ * Deletes an original transaction and its fee rows. Returns the deleted IDs.
+ */
+export async function deleteOriginalTransaction(
+  client: ReturnType<typeof createYnabClient>,
+  budgetId: string,
+  original: OriginalTransaction,
+): Promise<string[]> {
+  const ids = originalTransactionIds(original);
+  for (const id of ids) {
+    await client.deleteTransaction(id, budgetId);
+  }
+  return ids;
+}
+
+/**
+ * The memo of a reversal's transaction: the SMS memo and what it reverses.
+ * The markers also keep it from being taken for an original later.
+ */
+export function reversalMemo(
+  smsMemo: string,
+  reversedRef: string,
+  original?: OriginalTransaction,
+): string {
+  return original
+    ? `${smsMemo}${REVERSES_MARKER}${original.transaction.date} ${
+      original.transaction.payee_name ?? ""
+    }`.trimEnd()
+    : `${smsMemo}${NOT_FOUND_MARKER}${reversedRef} not found`;
+}
+
+/**
+ * The category a reversal takes from its original: a split's first part is
+ * the payment itself, the rest its fees.
+ */
+export function originalCategory(
+  transaction: YnabTransactionDetail,
+): { id: string; name: string | null } | undefined {
+  const source = transaction.subtransactions?.length
+    ? transaction.subtransactions[0]
+    : transaction;
+  return source.category_id
+    ? { id: source.category_id, name: source.category_name }
+    : undefined;
+}
+
+async function findInIngestionLog(
+  client: ReturnType<typeof createYnabClient>,
+  budgetId: string,
+  tenantId: string,
+  { ref }: ReversalLookup,
+): Promise<OriginalTransaction | undefined> {
+  const db = getSupabaseClient();
+  if (!db) return undefined;
+
+  const { data, error } = await db
+    .from("sms_ingestions")
+    .select(
+      "transaction_id, fee_transaction_id, sms_fee_transaction_id, is_reversal:ai_parsed->is_reversal",
+    )
+    .eq("tenant_id", tenantId)
+    .eq("status", "sent")
+    .eq("ai_parsed->>transaction_ref", ref)
+    .not("transaction_id", "is", null)
+    .order("created_at", { ascending: false })
+    .limit(5);
+
+  if (error) throw new Error(`Failed to search ingestions: ${error.message}`);
+
+  // An earlier reversal SMS may carry the same reference
+  const row = ((data ?? []) as IngestionRefRow[]).find((r) => !r.is_reversal);
+  if (!row) return undefined;
+
+  let transaction: YnabTransactionDetail;
+  try {
+    transaction = (await client.getTransaction(row.transaction_id, budgetId))
+      .data.transaction;
+  } catch (err) {
+    // Removed from YNAB since: let the YNAB search have a go
+    if (err instanceof YnabNotFoundError) return undefined;
+    throw err;
+  }
+  if (transaction.deleted) return undefined;
+
+  return {
+    transaction,
+    fee_transaction_ids: [row.fee_transaction_id, row.sms_fee_transaction_id]
+      .filter((id): id is string => !!id && id !== transaction.id),
+    found_in: "ingestion_log",
+  };
+}
+
+async function findInYnab(
+  client: ReturnType<typeof createYnabClient>,
+  budgetId: string,
+  { ref, accountId, date }: ReversalLookup,
+): Promise<OriginalTransaction | undefined> {
+  const res = await client.listAccountTransactions(
+    accountId,
+    addDays(date, -REVERSAL_LOOKBACK_DAYS),
+    budgetId,
+  );
+
+  // Memos carry "Ref: <ref>", on the fee rows too. Earlier reversals of
+  // the same transaction carry it as well, but aren't the original.
+  const refToken = new RegExp(
+    String.raw`\bRef:\s*${escapeRegExp(ref)}(?![A-Z0-9.\-])`,
+    "i",
+  );
+  const matches = res.data.transactions.filter((tx) =>
+    !tx.deleted && !!tx.memo && refToken.test(tx.memo) &&
+    !isReversalMemo(tx.memo)
+  );
+  const isFeeRow = (tx: YnabTransactionDetail) => isFeeImportId(tx.import_id);
+
+  // The latest match, if several: references are only unique per provider
+  const transaction = matches.filter((tx) => !isFeeRow(tx)).at(-1);
+  if (!transaction) return undefined;
+
+  return {
+    transaction,
+    fee_transaction_ids: matches.filter(isFeeRow).map((tx) => tx.id),
+    found_in: "ynab",
+  };
+}
+
+function isReversalMemo(memo: string): boolean {
+  return memo.includes(REVERSES_MARKER) || memo.includes(NOT_FOUND_MARKER);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function parseReversalMode(value?: string): ReversalMode {
+  return value === "off" || value === "delete" ? value : "offset";
+}
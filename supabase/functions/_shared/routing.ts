@@ -5,13 +5,18 @@
  * 1. Account ending hints (e.g., "ending 1234")
  * 2. Sender mapping (e.g., "AirtelMoney")
  * 3. Fallback: create/find "Unknown Imports" account
+ *
+ * Mappings are the tenant's defaults plus the account_mappings table
+ * (see account-mappings.ts).
  */
 
+import { loadAccountMappings } from "./account-mappings.ts";
 import {
   FALLBACK_ACCOUNT_NAME,
   getAccountNameByEnding,
   getAccountNameBySender,
 } from "./config.ts";
+import { getDefaultTenant, Tenant } from "./tenants.ts";
 import { findAccountByName, getAccountIdByName } from "./ynab-lookup.ts";
 import { createYnabClient } from "./ynab.ts";
 
@@ -23,9 +28,15 @@ export interface RoutingResult {
     | "sender_mapping"
     | "fallback_created"
     | "fallback_existing"
+    | "fallback_pending" // Dry run: fallback account would be created
     | "failed";
 }
 
+export interface RoutingOptions {
+  dryRun?: boolean; // Never create the fallback account
+  tenant?: Tenant; // Whose mappings to use (default tenant)
+}
+
 /**
  * Extracts the account ending from SMS text (e.g., "ending 1234").
  */
@@ -42,13 +53,18 @@ export async function resolveAccountId(
   sender: string | undefined,
   client: ReturnType<typeof createYnabClient>,
   budgetId: string,
+  options: RoutingOptions = {},
 ): Promise<RoutingResult> {
+  const mappings = await loadAccountMappings(
+    options.tenant ?? getDefaultTenant(),
+  );
+
   // Priority 1: Account ending hint
   const ending = extractAccountEnding(text);
   if (ending) {
-    const accountName = getAccountNameByEnding(ending);
+    const accountName = getAccountNameByEnding(ending, mappings);
     if (accountName) {
-      const accountId = getAccountIdByName(accountName);
+      const accountId = getAccountIdByName(accountName, budgetId);
       if (accountId) {
         return { accountId, accountName, source: "ending_hint" };
       }
@@ -57,9 +73,9 @@ export async function resolveAccountId(
 
   // Priority 2: Sender mapping
   if (sender) {
-    const accountName = getAccountNameBySender(sender);
+    const accountName = getAccountNameBySender(sender, mappings);
     if (accountName) {
-      const accountId = getAccountIdByName(accountName);
+      const accountId = getAccountIdByName(accountName, budgetId);
       if (accountId) {
         return { accountId, accountName, source: "sender_mapping" };
       }
@@ -67,14 +83,15 @@ export async function resolveAccountId(
   }
 
   // Priority 3: Fallback account
-  return await ensureFallbackAccount(client, budgetId);
+  return await ensureFallbackAccount(client, budgetId, options);
 }
 
 async function ensureFallbackAccount(
   client: ReturnType<typeof createYnabClient>,
   budgetId: string,
+  options: RoutingOptions,
 ): Promise<RoutingResult> {
-  const existing = findAccountByName(FALLBACK_ACCOUNT_NAME);
+  const existing = findAccountByName(FALLBACK_ACCOUNT_NAME, budgetId);
   if (existing) {
     return {
       accountId: existing.id,
@@ -83,6 +100,14 @@ async function ensureFallbackAccount(
     };
   }
 
+  if (options.dryRun) {
+    return {
+      accountId: undefined,
+      accountName: FALLBACK_ACCOUNT_NAME,
+      source: "fallback_pending",
+    };
+  }
+
   try {
     const created = await client.createAccount(
       { name: FALLBACK_ACCOUNT_NAME, type: "checking", balance: 0 },
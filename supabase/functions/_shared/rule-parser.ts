@@ -0,0 +1,413 @@
+/**
+ * RULE PARSER — Deterministic SMS parsing for known provider formats.
+ *
+ * Used when the LLM is unavailable (no API key, quota exhausted, network or
+ * bad JSON) so the SMS still becomes a transaction. Covers the common
+ * Airtel Money, MTN MoMo, Zamtel Money and Absa formats, and returns the
+ * same shape as the LLM backends so the webhook can't tell them apart.
+ */
+
+import type {
+  AiContext,
+  GeminiParsedSms,
+  GeminiResult,
+  SmsParserProvider,
+} from "./sms-parser.ts";
+import { normalizeCurrency } from "./currency.ts";
+import {
+  formatLocalDateTime,
+  formatLocalTime,
+  parseLocalDateTime,
+} from "./parsers.ts";
+
+type Network = "airtel" | "mtn" | "zamtel";
+type TransferType = NonNullable<GeminiParsedSms["transfer_type"]>;
+
+// Amounts look like "ZMW 1,250.00", "ZMW1250", "K100.00" or "USD 25.00"
+const AMOUNT_PATTERN =
+  /\b(ZMW|ZMK|K|USD|EUR|GBP|ZAR)\s?(\d[\d,]*(?:\.\d{1,2})?)/gi;
+
+// Words that mark an amount as something other than the transaction amount
+const BALANCE_LABEL = /\b(?:bal|balance)\b[^\d]{0,20}$/i;
+const FEE_LABEL = /\b(?:fee|fees|charge|charges)\b[^\d]{0,12}$/i;
+const LEVY_LABEL = /\blevy\b[^\d]{0,12}$/i;
+
+// Messages that mention money but aren't money movements
+const NON_TRANSACTION_PATTERN =
+  /\b(?:OTP|one[- ]time (?:pin|password)|verification code)\b/i;
+
+// Marketing wording, also found in the footers of real transaction SMS
+// ("... Bal K90. Dial *778# for offers"): only a promotion without an
+// amount and a money movement
+const PROMOTION_PATTERN =
+  /\b(?:congratulations|you (?:have )?won|promo|offer|qualify|loan limit|dial \*)/i;
+
+const REF_PATTERN =
+  /\b(?:TID|Txn\s*ID|Trans(?:action)?\s*ID|Ref(?:erence)?(?:\s*No)?)\s*[:.#]?\s*([A-Z0-9][A-Z0-9.\-]{3,})/i;
+
+// Zambian mobile numbers, with or without 0 / 260 prefix
+const PHONE_PATTERN = /(?:\+?260|\b0|\b)([79][5-7]\d{7})\b/;
+
+// "Transaction ID X has been reversed", "Reversal of ...", card refunds
+const REVERSAL_PATTERN = /\b(?:revers(?:ed|al)|refund(?:ed)?)\b/i;
+
+// Card authorisations that a "posted" SMS settles later. "Reserved" only
+// counts after an amount or funds: "All rights reserved" isn't a hold.
+const PENDING_PATTERN =
+  /\b(?:pending|authori[sz](?:ed|ation)|on hold)\b|\b(?:amount|funds|(?:ZMW|ZMK|K|USD|EUR|GBP|ZAR)\s?\d[\d,]*(?:\.\d{1,2})?)\s+(?:(?:has|have)\s+been\s+|is\s+|are\s+)?reserved\b/i;
+
+// Dates printed in the SMS, with the time if it follows: "04/01/2026",
+// "04-Jan-2026 10:15", "4 Jan 2026 at 10:15", "2026-01-04 10:15:00"
+const DATE_PATTERN =
+  /\b(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[/.-]\d{1,2}[/.-](?:\d{4}|\d{2})|\d{1,2}[\s-][a-z]{3,9}\.?,?[\s-]\s*(?:\d{4}|\d{2}))\b(?:,?\s+(?:at\s+)?(\d{1,2}:\d{2}(?::\d{2})?(?:\s*[ap]\.?m\.?)?))?/gi;
+
+const TIME_PATTERN = /\b([01]?\d|2[0-3]):([0-5]\d)(?::[0-5]\d)?\b/;
+
+// "payment to", "payment of ZMW 45.00 to", "payment of K45 to"
+const PAYMENT_TO = String
+  .raw`payment\s+(?:of\s+(?:(?:ZMW|ZMK|K|USD|EUR|GBP|ZAR)\s?)?\d[\d,]*(?:\.\d{1,2})?\s+)?to`;
+const PAYMENT_TO_PATTERN = new RegExp(PAYMENT_TO, "i");
+
+// Payee extraction, tried in order. The name stops at a phone number,
+// bracket, full stop, comma or a following keyword ("... to ZESCO PREPAID
+// 0123 was successful").
+const PAYEE_STOP = String
+  .raw`(?=\s*(?:\(|\+?\d{9,12}|\.\s|\.$|,|;|\s+on\s|\s+at\s|\s+amount|\s+ref|\s+TID|\s+with|\s+(?:was|is|has)\b|$))`;
+// A phone number before the name ("to 0971234567 JOHN BANDA") is skipped
+const PAYEE_PHONE = String
+  .raw`(?:\+?\d{9,12}\s+(?!(?:on|at|amount|ref|TID|with|was|is|has)\b)(?=[a-z]))?`;
+const PAYEE_PATTERNS: RegExp[] = [
+  new RegExp(String.raw`\bat POS\s+(.+?)${PAYEE_STOP}`, "i"),
+  new RegExp(
+    String
+      .raw`\b(?:sent|paid|transferred)\s+to\s+${PAYEE_PHONE}(.+?)${PAYEE_STOP}`,
+    "i",
+  ),
+  new RegExp(
+    String.raw`\b${PAYMENT_TO}\s+(.+?)${PAYEE_STOP}`,
+    "i",
+  ),
+  new RegExp(
+    String
+      .raw`\b(?:received|receive)\s+(?:\S+\s+\S+\s+)?from\s+${PAYEE_PHONE}(.+?)${PAYEE_STOP}`,
+    "i",
+  ),
+  new RegExp(String.raw`\bfrom\s+${PAYEE_PHONE}(.+?)${PAYEE_STOP}`, "i"),
+  new RegExp(String.raw`\bto\s+${PAYEE_PHONE}(.+?)${PAYEE_STOP}`, "i"),
+];
+
+// Without a name the payee is the number itself
+const PAYEE_NUMBER_PATTERN = /\b(?:to|from)\s+(\+?\d{9,12})\b/i;
+
+/**
+ * Parses an SMS message with deterministic rules.
+ * Never throws; unrecognised messages come back as non-transactions.
+ */
+export function parseWithRules(
+  smsText: string,
+  context: AiContext,
+): GeminiResult {
+  const text = smsText.replace(/\s+/g, " ").trim();
+  const senderNetwork = senderToNetwork(context.sender);
+
+  if (NON_TRANSACTION_PATTERN.test(text)) {
+    return result(notTransaction("Looks like an OTP message"));
+  }
+
+  const { amount, currency, balance, fee, levy } = extractAmounts(text);
+  const direction = detectDirection(text);
+  if (PROMOTION_PATTERN.test(text) && (amount === null || !direction)) {
+    return result(notTransaction("Looks like a promotion"));
+  }
+
+  if (amount === null) {
+    return result(notTransaction("No transaction amount found"));
+  }
+  if (!direction) {
+    return result(notTransaction("Could not determine money direction"));
+  }
+
+  const rawPayee = extractPayee(text);
+  const matchedPayee = rawPayee
+    ? context.payees.find((p) => p.toLowerCase() === rawPayee.toLowerCase())
+    : undefined;
+  const payee = matchedPayee ?? rawPayee;
+
+  const transferType = direction === "outflow"
+    ? detectTransferType(text, senderNetwork)
+    : null;
+
+  const ref = text.match(REF_PATTERN)?.[1]?.replace(/\.$/, "") ?? null;
+  // A reversal's reference is the reversed transaction's, not its own
+  const isReversal = REVERSAL_PATTERN.test(text);
+
+  const parsed: GeminiParsedSms = {
+    is_transaction: true,
+    reason: `Matched ${senderNetwork ?? "generic"} ${direction} pattern`,
+    amount,
+    currency,
+    direction,
+    payee,
+    is_new_payee: payee !== null && !matchedPayee,
+    category: null,
+    memo: buildMemo({
+      action: isReversal ? "Reversal" : describeAction(direction, transferType),
+      payee,
+      time: extractTime(text) ?? formatLocalTime(context.receivedAt),
+      ref,
+      balance,
+    }),
+    transaction_ref: isReversal ? null : ref,
+    is_reversal: isReversal,
+    reversed_ref: isReversal ? ref : null,
+    is_pending: !isReversal && PENDING_PATTERN.test(text),
+    transaction_date: extractDate(text),
+    balance,
+    fee,
+    levy,
+    transfer_type: transferType,
+    // Patterns are exact about what they find; a payee name pulled from
+    // free text may carry extra words unless it matched a known payee
+    confidence: {
+      amount: 0.9,
+      direction: 0.9,
+      payee: payee === null ? null : matchedPayee ? 0.9 : 0.6,
+      category: null,
+    },
+  };
+
+  return result(parsed);
+}
+
+/**
+ * Creates the rule-based SMS parser.
+ */
+export function createRuleParser(): SmsParserProvider {
+  return {
+    name: "rules",
+    parse: (smsText, context) =>
+      Promise.resolve(parseWithRules(smsText, context)),
+  };
+}
+
+function result(parsed: GeminiParsedSms): GeminiResult {
+  return { success: true, parsed, raw_response: JSON.stringify(parsed) };
+}
+
+function notTransaction(reason: string): GeminiParsedSms {
+  return {
+    is_transaction: false,
+    reason,
+    amount: null,
+    currency: null,
+    direction: null,
+    payee: null,
+    is_new_payee: false,
+    category: null,
+    memo: null,
+    transaction_ref: null,
+    is_reversal: false,
+    reversed_ref: null,
+    is_pending: false,
+    transaction_date: null,
+    balance: null,
+    fee: null,
+    levy: null,
+    transfer_type: null,
+    confidence: { amount: null, direction: null, payee: null, category: null },
+  };
+}
+
+interface ExtractedAmounts {
+  amount: number | null;
+  currency: string | null; // Of the transaction amount
+  balance: number | null;
+  fee: number | null;
+  levy: number | null;
+}
+
+/**
+ * Splits the amounts in an SMS into the transaction amount, balance, fee
+ * and levy. Labelled amounts are never the transaction amount.
+ */
+function extractAmounts(text: string): ExtractedAmounts {
+  let amount: number | null = null;
+  let currency: string | null = null;
+  let balance: number | null = null;
+  let fee: number | null = null;
+  let levy: number | null = null;
+
+  for (const match of text.matchAll(AMOUNT_PATTERN)) {
+    const value = Number(match[2].replace(/,/g, ""));
+    if (!Number.isFinite(value)) continue;
+
+    const before = text.slice(Math.max(0, match.index - 30), match.index);
+    if (BALANCE_LABEL.test(before)) {
+      balance ??= value;
+    } else if (LEVY_LABEL.test(before)) {
+      levy ??= value;
+    } else if (FEE_LABEL.test(before)) {
+      fee ??= value;
+    } else if (amount === null) {
+      amount = value;
+      currency = normalizeCurrency(match[1]);
+    }
+  }
+
+  return { amount, currency, balance, fee, levy };
+}
+
+function detectDirection(text: string): "inflow" | "outflow" | null {
+  // Bank wording is unambiguous, check it first
+  if (/has been credited|\bcredited\b/i.test(text)) return "inflow";
+  if (/has been debited|\bdebited\b/i.test(text)) return "outflow";
+
+  // Money coming back, even for a card or POS transaction
+  if (REVERSAL_PATTERN.test(text)) return "inflow";
+  if (/Debit Card transaction|\bat POS\b/i.test(text)) return "outflow";
+
+  if (/\b(?:received|deposit(?:ed)?|cash in)\b/i.test(text)) {
+    return "inflow";
+  }
+  if (
+    /\b(?:sent|paid|payment|withdr[ae]wn?|withdrawal|purchased?|bought|spent|cash out|top[- ]?up)\b/i
+      .test(text)
+  ) {
+    return "outflow";
+  }
+
+  return null;
+}
+
+function detectTransferType(
+  text: string,
+  senderNetwork: Network | "absa" | "stanchart" | undefined,
+): TransferType {
+  if (/\bat POS\b|\bPOS\b/i.test(text)) return "pos";
+  if (
+    /Debit Card transaction|\bATM\b|withdr[ae]w|cash out|\bagent\b/i.test(text)
+  ) {
+    return "withdrawal";
+  }
+  if (/\bairtime\b|\bbundle\b|\bdata\b|top[- ]?up/i.test(text)) {
+    return "airtime";
+  }
+  if (
+    /\btill\b|\bmerchant\b|\bbill\b/i.test(text) ||
+    PAYMENT_TO_PATTERN.test(text)
+  ) {
+    return "bill_payment";
+  }
+
+  const phone = text.match(PHONE_PATTERN)?.[1];
+  const recipientNetwork = phone ? phoneToNetwork(phone) : undefined;
+
+  if (senderNetwork === "absa" || senderNetwork === "stanchart") {
+    if (recipientNetwork || /mobile money|airtel|mtn|momo|zamtel/i.test(text)) {
+      return "to_mobile";
+    }
+    return "unknown";
+  }
+
+  if (/\bbank\b|\baccount\s*(?:no|number)\b/i.test(text)) return "to_bank";
+
+  if (senderNetwork && recipientNetwork) {
+    return senderNetwork === recipientNetwork
+      ? "same_network"
+      : "cross_network";
+  }
+
+  return "unknown";
+}
+
+function extractPayee(text: string): string | null {
+  for (const pattern of PAYEE_PATTERNS) {
+    const name = text.match(pattern)?.[1]?.trim();
+    if (!name) continue;
+
+    // Skip captures that are just numbers, amounts or account wording
+    if (
+      /^(?:\+?\d[\d\s]*|(?:ZMW|USD|EUR|GBP|ZAR).*|K\d.*|your .*|account.*)$/i
+        .test(name)
+    ) {
+      continue;
+    }
+    return name;
+  }
+  return text.match(PAYEE_NUMBER_PATTERN)?.[1] ?? null;
+}
+
+function extractTime(text: string): string | null {
+  const match = text.match(TIME_PATTERN);
+  if (!match) return null;
+  return `${match[1].padStart(2, "0")}:${match[2]}`;
+}
+
+function extractDate(text: string): string | null {
+  for (const match of text.matchAll(DATE_PATTERN)) {
+    const local = parseLocalDateTime(
+      match[2] ? `${match[1]} ${match[2]}` : match[1],
+    );
+    if (local) return formatLocalDateTime(local);
+  }
+  return null;
+}
+
+function describeAction(
+  direction: "inflow" | "outflow",
+  transferType: TransferType | null,
+): string {
+  if (direction === "inflow") return "Received from";
+
+  switch (transferType) {
+    case "pos":
+      return "POS purchase at";
+    case "withdrawal":
+      return "Cash withdrawal";
+    case "airtime":
+      return "Airtime purchase";
+    case "bill_payment":
+      return "Payment to";
+    default:
+      return "Sent to";
+  }
+}
+
+function buildMemo(parts: {
+  action: string;
+  payee: string | null;
+  time: string;
+  ref: string | null;
+  balance: number | null;
+}): string {
+  const segments = [
+    parts.payee
+      ? `${parts.action} ${parts.payee}`
+      : parts.action.replace(/\s+(?:to|from|at)$/, ""),
+  ];
+  if (parts.time) segments.push(parts.time);
+  if (parts.ref) segments.push(`Ref: ${parts.ref}`);
+  if (parts.balance !== null) segments.push(`Bal: ${parts.balance.toFixed(2)}`);
+  return segments.join(" | ");
+}
+
+function senderToNetwork(
+  sender?: string,
+): Network | "absa" | "stanchart" | undefined {
+  if (!sender) return undefined;
+  const s = sender.toLowerCase();
+  if (s.includes("airtel")) return "airtel";
+  if (s.includes("momo") || s.includes("mtn")) return "mtn";
+  if (s === "115" || s.includes("zamtel")) return "zamtel";
+  if (s.includes("absa")) return "absa";
+  if (s.includes("stanchart")) return "stanchart";
+  return undefined;
+}
+
+function phoneToNetwork(phone: string): Network | undefined {
+  const prefix = phone.slice(0, 2);
+  if (prefix === "97" || prefix === "77") return "airtel";
+  if (prefix === "96" || prefix === "76") return "mtn";
+  if (prefix === "95" || prefix === "75") return "zamtel";
+  return undefined;
+}
@@ -0,0 +1,186 @@
+/**
+ * SMS PARSER — Common interface for the SMS parsing backends.
+ *
+ * Every backend takes the SMS text plus YNAB context and returns the same
+ * parse result, so the webhook doesn't care which one ran. The LLM backend is
+ * chosen with LLM_BACKEND; the deterministic rule parser is always available
+ * as a fallback.
+ *
+ *   LLM_BACKEND=gemini  → Google Gemini (GEMINI_API_KEY, GEMINI_MODEL)
+ *   LLM_BACKEND=openai  → Any OpenAI-compatible endpoint, including a local
+ *                         Ollama/llama.cpp server (LLM_BASE_URL, LLM_MODEL,
+ *                         LLM_API_KEY)
+ *   LLM_BACKEND=rules   → Rule parser only, no LLM calls at all
+ */
+
+import { createGeminiParser, DEFAULT_GEMINI_MODEL } from "./gemini.ts";
+import { createOpenAiParser, DEFAULT_OPENAI_BASE_URL } from "./openai.ts";
+import { createRuleParser } from "./rule-parser.ts";
+
+// How sure the parser is of each field, from 0 to 1; null when the field
+// is null (or the parser gave no rating)
+export interface ParseConfidence {
+  amount: number | null;
+  direction: number | null;
+  payee: number | null;
+  category: number | null;
+}
+
+// The structured response from the SMS parser (named after the first backend)
+export interface GeminiParsedSms {
+  is_transaction: boolean;
+  reason: string;
+  amount: number | null;
+  currency: string | null; // ISO 4217 code of amount, fee and levy (e.g. "ZMW", "USD")
+  direction: "inflow" | "outflow" | null;
+  payee: string | null;
+  is_new_payee: boolean;
+  category: string | null;
+  memo: string | null;
+  transaction_ref: string | null;
+  is_reversal: boolean; // A reversal or refund of an earlier transaction
+  reversed_ref: string | null; // The reversed transaction's reference
+  is_pending: boolean; // Authorised/on hold; a "posted" SMS may follow
+  transaction_date: string | null; // Stated in the SMS, local: "YYYY-MM-DD" or "YYYY-MM-DDTHH:MM"
+  balance: number | null; // Account balance stated in the SMS, after this transaction
+  fee: number | null; // Fee/charge stated in the SMS
+  levy: number | null; // Government levy stated in the SMS
+  transfer_type:
+    | "same_network"
+    | "cross_network"
+    | "to_bank"
+    | "to_mobile"
+    | "withdrawal"
+    | "airtime"
+    | "bill_payment"
+    | "pos"
+    | "unknown"
+    | null;
+  confidence: ParseConfidence;
+}
+
+export interface GeminiResult {
+  success: boolean;
+  parsed?: GeminiParsedSms;
+  error?: string;
+  raw_response?: string;
+}
+
+export interface AiContext {
+  categories: string[];
+  payees: string[];
+  receivedAt?: string;
+  sender?: string; // SMS sender name (e.g., "AirtelMoney", "MoMo", "Absa")
+}
+
+export type SmsParserName = "gemini" | "openai" | "rules";
+
+export interface SmsParserProvider {
+  name: SmsParserName;
+  parse(smsText: string, context: AiContext): Promise<GeminiResult>;
+}
+
+export interface SmsParseResult extends GeminiResult {
+  parser: SmsParserName;
+  fallback_reason?: string; // Why the LLM's answer wasn't used
+}
+
+// "ai_first" (default): LLM, falling back to rules if it fails
+// "rules_first": rules, falling back to the LLM if they find no transaction
+const parserStrategy = Deno.env.get("PARSER_STRATEGY") === "rules_first"
+  ? "rules_first"
+  : "ai_first";
+
+// How long an LLM call may take before the rule parser takes over (ms)
+const LLM_TIMEOUT_MS = Number(Deno.env.get("LLM_TIMEOUT_MS")) || 30_000;
+
+const ruleParser = createRuleParser();
+const llm = createLlmParser();
+
+/**
+ * Creates the LLM parser selected by LLM_BACKEND.
+ * Returns the reason instead when it can't be used.
+ */
+function createLlmParser(): {
+  parser?: SmsParserProvider;
+  unavailable?: string;
+} {
+  const backend = (Deno.env.get("LLM_BACKEND") ?? "gemini").toLowerCase();
+
+  switch (backend) {
+    case "gemini": {
+      const apiKey = Deno.env.get("GEMINI_API_KEY");
+      if (!apiKey) return { unavailable: "GEMINI_API_KEY not configured" };
+      const model = Deno.env.get("GEMINI_MODEL") || DEFAULT_GEMINI_MODEL;
+      return { parser: createGeminiParser(apiKey, model, LLM_TIMEOUT_MS) };
+    }
+
+    case "openai": {
+      const model = Deno.env.get("LLM_MODEL");
+      if (!model) return { unavailable: "LLM_MODEL not configured" };
+      return {
+        parser: createOpenAiParser({
+          baseUrl: Deno.env.get("LLM_BASE_URL") || DEFAULT_OPENAI_BASE_URL,
+          model,
+          apiKey: Deno.env.get("LLM_API_KEY") || undefined,
+          timeoutMs: LLM_TIMEOUT_MS,
+        }),
+      };
+    }
+
+    case "rules":
+      return {};
+
+    default:
+      return { unavailable: `Unknown LLM_BACKEND "${backend}"` };
+  }
+}
+
+/**
+ * Checks whether an LLM backend is configured (as opposed to rules only).
+ */
+export function isLlmConfigured(): boolean {
+  return Boolean(llm.parser);
+}
+
+/**
+ * Parses an SMS with the LLM and the rule parser, in PARSER_STRATEGY order.
+ * The rule parser never fails, so it's always the last resort.
+ */
+export async function parseSms(
+  text: string,
+  context: AiContext,
+): Promise<SmsParseResult> {
+  const llmParser = llm.parser;
+
+  if (!llmParser) {
+    return {
+      ...(await ruleParser.parse(text, context)),
+      parser: ruleParser.name,
+      fallback_reason: llm.unavailable,
+    };
+  }
+
+  if (parserStrategy === "rules_first") {
+    const rules = await ruleParser.parse(text, context);
+    if (rules.parsed?.is_transaction) {
+      return { ...rules, parser: ruleParser.name };
+    }
+
+    const ai = await llmParser.parse(text, context);
+    if (ai.success) return { ...ai, parser: llmParser.name };
+
+    console.warn(`${llmParser.name} fallback failed:`, ai.error);
+    return { ...rules, parser: ruleParser.name };
+  }
+
+  const ai = await llmParser.parse(text, context);
+  if (ai.success) return { ...ai, parser: llmParser.name };
+
+  console.warn(`${llmParser.name} parsing failed, using rules:`, ai.error);
+  return {
+    ...(await ruleParser.parse(text, context)),
+    parser: ruleParser.name,
+    fallback_reason: ai.error,
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * SUPABASE CLIENT — Service-role database access for edge functions.
+ *
+ * SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are injected automatically
+ * when deployed. Without them (e.g. plain `deno run`), database features
+ * are skipped rather than failing the request.
+ */
+
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+let client: SupabaseClient | null | undefined;
+
+/**
+ * Gets the shared service-role client, or null if Supabase isn't configured.
+ */
+export function getSupabaseClient(): SupabaseClient | null {
+  if (client !== undefined) return client;
+
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  client = url && serviceRoleKey
+    ? createClient(url, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    })
+    : null;
+
+  return client;
+}
@@ -0,0 +1,149 @@
+/**
+ * TENANTS — Several people sharing one deployment.
+ *
+ * Each tenant has their own webhook secret, YNAB token and budget, and
+ * sender/account mappings. The single-budget setup (WEBHOOK_SECRET,
+ * YNAB_TOKEN, YNAB_BUDGET_ID, config.ts) is the "default" tenant; more are
+ * added with the TENANTS secret:
+ *
+ *   supabase secrets set TENANTS='[{"id":"jane","webhook_secret":"...",
+ *     "ynab_token":"...","budget_id":"...",
+ *     "senders":{"airtelmoney":"Jane Airtel"},
+ *     "account_endings":{"4321":"Jane Savings"}}]'
+ *
+ * A tenant's senders are added to (and override) the defaults in config.ts;
+ * account endings and currencies are the tenant's own.
+ */
+
+import {
+  AccountMappings,
+  DEFAULT_ACCOUNT_MAPPINGS,
+  SENDER_TO_ACCOUNT,
+} from "./config.ts";
+
+export const DEFAULT_TENANT_ID = "default";
+
+export interface Tenant {
+  id: string;
+  ynabToken?: string;
+  budgetId?: string;
+  mappings: AccountMappings;
+}
+
+// A TENANTS entry as written in the secret
+interface TenantConfig {
+  id: string;
+  webhook_secret: string;
+  ynab_token: string;
+  budget_id: string;
+  senders?: Record<string, string>;
+  account_endings?: Record<string, string>;
+  account_currencies?: Record<string, string>;
+}
+
+interface TenantEntry {
+  tenant: Tenant;
+  webhookSecret?: string;
+}
+
+const defaultEntry: TenantEntry = {
+  tenant: {
+    id: DEFAULT_TENANT_ID,
+    ynabToken: Deno.env.get("YNAB_TOKEN"),
+    budgetId: Deno.env.get("YNAB_BUDGET_ID"),
+    mappings: DEFAULT_ACCOUNT_MAPPINGS,
+  },
+  webhookSecret: Deno.env.get("WEBHOOK_SECRET"),
+};
+
+const extraEntries: TenantEntry[] = parseTenants(Deno.env.get("TENANTS"));
+
+/**
+ * Gets the tenant used when a request names none: the single-budget setup.
+ */
+export function getDefaultTenant(): Tenant {
+  return defaultEntry.tenant;
+}
+
+/**
+ * Gets a tenant by ID; no ID means the default tenant.
+ */
+export function getTenant(id: string | null | undefined): Tenant | undefined {
+  if (!id || id === DEFAULT_TENANT_ID) return defaultEntry.tenant;
+  return extraEntries.find((e) => e.tenant.id === id)?.tenant;
+}
+
+/**
+ * Finds the tenant a webhook secret belongs to. Without WEBHOOK_SECRET the
+ * default tenant accepts any request that isn't another tenant's.
+ */
+export function findTenantBySecret(
+  secret: string | null,
+): Tenant | undefined {
+  if (secret) {
+    const entry = extraEntries.find((e) => e.webhookSecret === secret);
+    if (entry) return entry.tenant;
+  }
+
+  if (!defaultEntry.webhookSecret || secret === defaultEntry.webhookSecret) {
+    return defaultEntry.tenant;
+  }
+  return undefined;
+}
+
+function parseTenants(raw: string | undefined): TenantEntry[] {
+  if (!raw) return [];
+
+  let configs: unknown;
+  try {
+    configs = JSON.parse(raw);
+  } catch {
+    console.error("TENANTS is not valid JSON — ignoring it");
+    return [];
+  }
+  if (!Array.isArray(configs)) {
+    console.error("TENANTS must be a JSON array — ignoring it");
+    return [];
+  }
+
+  const entries: TenantEntry[] = [];
+  for (const config of configs as Partial<TenantConfig>[]) {
+    if (
+      !config?.id || config.id === DEFAULT_TENANT_ID ||
+      !config.webhook_secret || !config.ynab_token || !config.budget_id
+    ) {
+      console.error(
+        `Skipping TENANTS entry "${config?.id ?? "?"}": id, webhook_secret, ` +
+          `ynab_token and budget_id are required (id can't be "default")`,
+      );
+      continue;
+    }
+    if (entries.some((e) => e.tenant.id === config.id)) {
+      console.error(`Skipping duplicate TENANTS entry "${config.id}"`);
+      continue;
+    }
+
+    entries.push({
+      tenant: {
+        id: config.id,
+        ynabToken: config.ynab_token,
+        budgetId: config.budget_id,
+        mappings: {
+          senders: { ...SENDER_TO_ACCOUNT, ...lowercaseKeys(config.senders) },
+          endings: config.account_endings ?? {},
+          currencies: config.account_currencies ?? {},
+        },
+      },
+      webhookSecret: config.webhook_secret,
+    });
+  }
+  return entries;
+}
+
+function lowercaseKeys(
+  record: Record<string, string> | undefined,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(record ?? {}).map(([k, v]) => [k.toLowerCase(), v]),
+  );
+}
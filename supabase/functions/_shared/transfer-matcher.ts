@@ -0,0 +1,132 @@
+/**
+ * TRANSFER MATCHING — Recognizes money moved between our own accounts.
+ *
+ * Moving money from Absa to Airtel Money produces two SMS: an Absa debit
+ * and an Airtel credit. When an outflow and an inflow in two different
+ * mapped accounts have the same amount and dates within a few days of each
+ * other, they're the two sides of one transfer and are recorded in YNAB as
+ * a single transfer instead of two unrelated transactions. Round amounts
+ * are common, so a pair the SMS link — by reference, or by naming the other
+ * account — is preferred, and a toss-up is left for review.
+ */
+
+import { addDays, daysBetween } from "./parsers.ts";
+import type { GeminiParsedSms } from "./sms-parser.ts";
+
+// Set TRANSFER_MATCHING=off to post both sides as separate transactions
+export const transferMatchingEnabled =
+  Deno.env.get("TRANSFER_MATCHING") !== "off";
+
+// Max days between the two sides' dates (YNAB dates have no time)
+const TRANSFER_MATCH_WINDOW_DAYS = Number(
+  Deno.env.get("TRANSFER_MATCH_WINDOW_DAYS") ?? 1,
+);
+
+// Transfer types that always pay someone else
+const EXTERNAL_TRANSFER_TYPES = new Set([
+  "pos",
+  "withdrawal",
+  "airtime",
+  "bill_payment",
+]);
+
+// Words of account names too common to link a transfer's two sides
+const GENERIC_ACCOUNT_WORDS = new Set([
+  "account",
+  "bank",
+  "card",
+  "cash",
+  "credit",
+  "current",
+  "debit",
+  "main",
+  "mobile",
+  "money",
+  "savings",
+  "wallet",
+]);
+
+// One side of a possible transfer, in YNAB terms
+export interface TransferSide {
+  accountId: string;
+  accountName?: string;
+  date: string; // YYYY-MM-DD
+  amount: number; // Milliunits, negative for outflows
+  ref?: string | null; // transaction_ref
+  text?: string | null; // SMS text or YNAB memo
+}
+
+// The other side picked for a transfer: the match, or the equally likely
+// candidates when there's no telling them apart
+export interface CounterpartPick<T> {
+  match?: T;
+  ambiguous: T[];
+}
+
+/**
+ * Checks whether a parsed SMS could be one side of a transfer between our
+ * own accounts.
+ */
+export function canBeOwnTransfer(parsed: GeminiParsedSms): boolean {
+  // A reversal returns money from a payee, not from another account
+  if (parsed.is_reversal) return false;
+  return !parsed.transfer_type ||
+    !EXTERNAL_TRANSFER_TYPES.has(parsed.transfer_type);
+}
+
+/**
+ * Checks whether two transactions are the two sides of one transfer:
+ * different accounts, opposite amounts, dates within the match window.
+ */
+export function isTransferPair(a: TransferSide, b: TransferSide): boolean {
+  return a.accountId !== b.accountId &&
+    a.amount !== 0 &&
+    a.amount === -b.amount &&
+    daysBetween(a.date, b.date) <= TRANSFER_MATCH_WINDOW_DAYS;
+}
+
+/**
+ * Picks the other side of a transfer from candidates that pair with `side`
+ * (see isTransferPair): the only one linked to it by reference or account
+ * name, else the only candidate. Several are ambiguous.
+ */
+export function pickCounterpart<T>(
+  side: TransferSide,
+  candidates: T[],
+  toSide: (candidate: T) => TransferSide,
+): CounterpartPick<T> {
+  const linked = candidates.filter((c) => isLinkedPair(side, toSide(c)));
+  const likeliest = linked.length > 0 ? linked : candidates;
+  return likeliest.length === 1
+    ? { match: likeliest[0], ambiguous: [] }
+    : { ambiguous: likeliest };
+}
+
+/**
+ * Earliest date a counterpart of a transaction on `date` can have.
+ */
+export function transferWindowStart(date: string): string {
+  return addDays(date, -TRANSFER_MATCH_WINDOW_DAYS);
+}
+
+// The same reference on both sides, or either naming the other's account
+function isLinkedPair(a: TransferSide, b: TransferSide): boolean {
+  if (a.ref && b.ref && a.ref.toLowerCase() === b.ref.toLowerCase()) {
+    return true;
+  }
+  return mentions(a, b) || mentions(b, a);
+}
+
+function mentions(side: TransferSide, other: TransferSide): boolean {
+  const text = side.text?.toLowerCase();
+  if (!text) return false;
+  if (other.ref && text.includes(other.ref.toLowerCase())) return true;
+  return accountWords(other.accountName).some((word) =>
+    new RegExp(String.raw`\b${word}\b`).test(text)
+  );
+}
+
+function accountWords(name?: string): string[] {
+  return (name?.toLowerCase().split(/[^a-z]+/) ?? [])
+    .filter((word) => word.length >= 3 && !GENERIC_ACCOUNT_WORDS.has(word));
+}
@@ -3,59 +3,103 @@
  *
  * Instead of hardcoding UUIDs, we use human-readable names in config.
  * This module fetches current IDs from YNAB API and caches them.
+ *
+ * The cache is kept per budget, so tenants sharing a deployment never see
+ * each other's accounts, categories or payees.
+ *
+ * Recent transaction history is also summarized per payee, so a payee's
+ * usual category can be applied when the parser doesn't pick one.
  */
 
-import { createYnabClient } from "./ynab.ts";
+import {
+  createYnabClient,
+  YnabAccountDetail,
+  YnabCategory,
+  YnabPayee,
+  YnabTransactionDetail,
+} from "./ynab.ts";
 
-interface YnabAccount {
-  id: string;
-  name: string;
-  type: string;
-  deleted: boolean;
-  transfer_payee_id: string;
+interface CachedData {
+  accounts: YnabAccountDetail[];
+  categories: YnabCategory[];
+  payees: YnabPayee[];
+  fetchedAt: number;
 }
 
-interface YnabCategory {
-  id: string;
-  name: string;
-  deleted: boolean;
-  category_group_id: string;
-}
+// How often each payee was given each category, per payee ID
+type CategoryModel = Map<string, Map<string, number>>;
 
-interface YnabPayee {
+// The existing payee closest to a name that didn't match exactly
+export interface PayeeCandidate {
   id: string;
   name: string;
-  deleted: boolean;
-  transfer_account_id: string | null;
+  score: number; // 0–1; 1 means the same name
 }
 
-interface CachedData {
-  accounts: YnabAccount[];
-  categories: YnabCategory[];
-  payees: YnabPayee[];
-  fetchedAt: number;
+// A payee's usual category, learned from their past transactions
+export interface LearnedCategory {
+  category_id: string;
+  category_name: string;
+  count: number; // Transactions with this category
+  total: number; // Categorized transactions for the payee
 }
 
-let cache: CachedData | null = null;
+const caches = new Map<string, CachedData>();
 const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
 
-function isCacheValid(): boolean {
+// Days of history to learn payee categories from; 0 turns learning off
+const CATEGORY_LEARNING_DAYS = Number(
+  Deno.env.get("CATEGORY_LEARNING_DAYS") ?? 180,
+);
+// History changes slowly and is large, so it's re-read less often
+const CATEGORY_MODEL_TTL_MS = 60 * 60 * 1000; // 1 hour
+// A category is only learned once it's the payee's clear habit
+const LEARNED_MIN_COUNT = 2;
+const LEARNED_MIN_SHARE = 0.6;
+
+const categoryModels = new Map<
+  string,
+  { model: CategoryModel; builtAt: number }
+>();
+
+function isCacheValid(budgetId: string): boolean {
+  const cache = caches.get(budgetId);
   if (!cache) return false;
   return Date.now() - cache.fetchedAt < CACHE_TTL_MS;
 }
 
-export function clearCache(): void {
-  cache = null;
+/**
+ * Drops one budget's cached data, or every budget's.
+ */
+export function clearCache(budgetId?: string): void {
+  if (budgetId) {
+    caches.delete(budgetId);
+    categoryModels.delete(budgetId);
+  } else {
+    caches.clear();
+    categoryModels.clear();
+  }
 }
 
 /**
- * Ensures the cache is populated with fresh data from YNAB.
+ * Ensures the cache is populated with fresh data from YNAB, and the payee
+ * category model with recent history.
  */
 export async function ensureCache(
   client: ReturnType<typeof createYnabClient>,
   budgetId: string,
 ): Promise<void> {
-  if (isCacheValid()) return;
+  await Promise.all([
+    refreshCache(client, budgetId),
+    refreshCategoryModel(client, budgetId),
+  ]);
+}
+
+async function refreshCache(
+  client: ReturnType<typeof createYnabClient>,
+  budgetId: string,
+): Promise<void> {
+  if (isCacheValid(budgetId)) return;
 
   const [accountsRes, categoriesRes, payeesRes] = await Promise.all([
     client.listAccounts(budgetId),
@@ -65,19 +109,23 @@ export async function ensureCache(
 
   const categories: YnabCategory[] = [];
   for (const group of categoriesRes.data.category_groups) {
-    if (group.categories) categories.push(...group.categories);
+    categories.push(...group.categories);
   }
 
-  cache = {
+  caches.set(budgetId, {
     accounts: accountsRes.data.accounts,
     categories,
     payees: payeesRes.data.payees,
     fetchedAt: Date.now(),
-  };
+  });
 }
 
 // Account lookups
-export function findAccountByName(name: string): YnabAccount | undefined {
+export function findAccountByName(
+  name: string,
+  budgetId: string,
+): YnabAccountDetail | undefined {
+  const cache = caches.get(budgetId);
   if (!cache) return undefined;
   const lower = name.toLowerCase();
   return cache.accounts.find((a) =>
@@ -85,8 +133,11 @@ export function findAccountByName(name: string): YnabAccount | undefined {
   );
 }
 
-export function getAccountIdByName(name: string): string | undefined {
-  return findAccountByName(name)?.id;
+export function getAccountIdByName(
+  name: string,
+  budgetId: string,
+): string | undefined {
+  return findAccountByName(name, budgetId)?.id;
 }
 
 /**
@@ -96,16 +147,21 @@ export function getAccountIdByName(name: string): string | undefined {
  */
 export function getTransferPayeeIdByAccountName(
   name: string,
+  budgetId: string,
 ): string | undefined {
-  return findAccountByName(name)?.transfer_payee_id;
+  return findAccountByName(name, budgetId)?.transfer_payee_id;
 }
 
-export function getAllAccounts(): YnabAccount[] {
-  return cache?.accounts.filter((a) => !a.deleted) ?? [];
+export function getAllAccounts(budgetId: string): YnabAccountDetail[] {
+  return caches.get(budgetId)?.accounts.filter((a) => !a.deleted) ?? [];
 }
 
 // Category lookups
-export function findCategoryByName(name: string): YnabCategory | undefined {
+export function findCategoryByName(
+  name: string,
+  budgetId: string,
+): YnabCategory | undefined {
+  const cache = caches.get(budgetId);
   if (!cache) return undefined;
   const lower = name.toLowerCase();
   return cache.categories.find((c) =>
@@ -113,15 +169,19 @@ export function findCategoryByName(name: string): YnabCategory | undefined {
   );
 }
 
-export function getCategoryIdByName(name: string): string | undefined {
-  return findCategoryByName(name)?.id;
+export function getCategoryIdByName(
+  name: string,
+  budgetId: string,
+): string | undefined {
+  return findCategoryByName(name, budgetId)?.id;
 }
 
-export function getAllCategories(): YnabCategory[] {
-  return cache?.categories.filter((c) => !c.deleted) ?? [];
+export function getAllCategories(budgetId: string): YnabCategory[] {
+  return caches.get(budgetId)?.categories.filter((c) => !c.deleted) ?? [];
 }
 
-export function getAllCategoryNames(): string[] {
+export function getAllCategoryNames(budgetId: string): string[] {
+  const cache = caches.get(budgetId);
   if (!cache) return [];
   return cache.categories
     .filter((c) => !c.deleted && !c.name.startsWith("Internal:"))
@@ -129,23 +189,180 @@ export function getAllCategoryNames(): string[] {
 }
 
 // Payee lookups
-export function findPayeeByName(name: string): YnabPayee | undefined {
+export function findPayeeByName(
+  name: string,
+  budgetId: string,
+): YnabPayee | undefined {
+  const cache = caches.get(budgetId);
   if (!cache) return undefined;
   const lower = name.toLowerCase();
   return cache.payees.find((p) => p.name.toLowerCase() === lower && !p.deleted);
 }
 
-export function getPayeeIdByName(name: string): string | undefined {
-  return findPayeeByName(name)?.id;
+export function getPayeeIdByName(
+  name: string,
+  budgetId: string,
+): string | undefined {
+  return findPayeeByName(name, budgetId)?.id;
 }
 
-export function getAllPayees(): YnabPayee[] {
-  return cache?.payees.filter((p) => !p.deleted) ?? [];
+/**
+ * Finds the existing payee closest to `name`, for names the parser spelled
+ * differently ("Jon Banda" vs "John Banda", "BANDA JOHN"). Compares whole
+ * names and their sorted words by edit distance; transfer payees are
+ * ignored.
+ */
+export function findClosestPayee(
+  name: string,
+  budgetId: string,
+): PayeeCandidate | undefined {
+  const target = normalizeName(name);
+  if (!target) return undefined;
+
+  let best: PayeeCandidate | undefined;
+  for (const payee of getAllPayees(budgetId)) {
+    if (payee.transfer_account_id) continue;
+
+    const score = nameSimilarity(target, normalizeName(payee.name));
+    if (!best || score > best.score) {
+      best = { id: payee.id, name: payee.name, score };
+    }
+  }
+  return best;
 }
 
-export function getAllPayeeNames(): string[] {
+export function getAllPayees(budgetId: string): YnabPayee[] {
+  return caches.get(budgetId)?.payees.filter((p) => !p.deleted) ?? [];
+}
+
+export function getAllPayeeNames(budgetId: string): string[] {
+  const cache = caches.get(budgetId);
   if (!cache) return [];
   return cache.payees
     .filter((p) => !p.deleted && !p.transfer_account_id)
     .map((p) => p.name);
 }
+
+// Learned categories
+export function getLearnedCategory(
+  payeeId: string,
+  budgetId: string,
+): LearnedCategory | undefined {
+  const counts = categoryModels.get(budgetId)?.model.get(payeeId);
+  if (!counts) return undefined;
+
+  let total = 0;
+  let best: [string, number] | undefined;
+  for (const entry of counts) {
+    total += entry[1];
+    if (!best || entry[1] > best[1]) best = entry;
+  }
+  if (!best) return undefined;
+
+  const [categoryId, count] = best;
+  if (count < LEARNED_MIN_COUNT || count / total < LEARNED_MIN_SHARE) {
+    return undefined;
+  }
+
+  const category = caches.get(budgetId)?.categories.find((c) =>
+    c.id === categoryId && !c.deleted
+  );
+  if (!category) return undefined;
+
+  return {
+    category_id: categoryId,
+    category_name: category.name,
+    count,
+    total,
+  };
+}
+
+/**
+ * Rebuilds the payee → category counts from recent transactions. Best
+ * effort: without history, categories just aren't learned.
+ */
+async function refreshCategoryModel(
+  client: ReturnType<typeof createYnabClient>,
+  budgetId: string,
+): Promise<void> {
+  if (!(CATEGORY_LEARNING_DAYS > 0)) return;
+
+  const current = categoryModels.get(budgetId);
+  if (current && Date.now() - current.builtAt < CATEGORY_MODEL_TTL_MS) return;
+
+  const since = new Date();
+  since.setUTCDate(since.getUTCDate() - CATEGORY_LEARNING_DAYS);
+
+  let transactions: YnabTransactionDetail[];
+  try {
+    const res = await client.listTransactions(
+      since.toISOString().slice(0, 10),
+      budgetId,
+    );
+    transactions = res.data.transactions;
+  } catch (err) {
+    console.warn(
+      "Category learning skipped — could not list transactions:",
+      err,
+    );
+    // Don't retry on every request while YNAB is unhappy
+    categoryModels.set(budgetId, {
+      model: current?.model ?? new Map(),
+      builtAt: Date.now(),
+    });
+    return;
+  }
+
+  const model: CategoryModel = new Map();
+  for (const t of transactions) {
+    // Transfers and splits have no single category of their own
+    if (
+      t.deleted || !t.payee_id || !t.category_id || t.transfer_account_id ||
+      t.category_name?.startsWith("Split") ||
+      t.category_name === "Uncategorized"
+    ) {
+      continue;
+    }
+
+    const counts = model.get(t.payee_id) ?? new Map<string, number>();
+    counts.set(t.category_id, (counts.get(t.category_id) ?? 0) + 1);
+    model.set(t.payee_id, counts);
+  }
+
+  categoryModels.set(budgetId, { model, builtAt: Date.now() });
+}
+
+// Lowercase words only: punctuation and spacing don't make names different
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+// Best of whole-name and sorted-word similarity, so word order doesn't count
+function nameSimilarity(a: string, b: string): number {
+  const sortWords = (s: string) => s.split(" ").sort().join(" ");
+  return Math.max(
+    editSimilarity(a, b),
+    editSimilarity(sortWords(a), sortWords(b)),
+  );
+}
+
+// 1 minus the Levenshtein distance relative to the longer string
+function editSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / longest;
+}
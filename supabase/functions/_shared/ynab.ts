@@ -1,21 +1,233 @@
 /**
- * YNAB API CLIENT — Minimal wrapper for YNAB API calls.
+ * YNAB API CLIENT — Typed wrapper for the YNAB API calls we use.
+ *
+ * YNAB allows 200 requests an hour per token. Rate-limited (429) requests
+ * are retried after the Retry-After YNAB sends, and server errors (5xx)
+ * with exponential backoff — except POSTs, which may have gone through.
+ * Failures throw a YnabError subclass callers can branch on.
  */
 
 const YNAB_BASE_URL = "https://api.youneedabudget.com/v1";
 
+// Retries per request, and the longest wait worth spending on one: a
+// longer Retry-After is thrown as a YnabRateLimitError instead
+const YNAB_MAX_RETRIES = Number(Deno.env.get("YNAB_MAX_RETRIES") ?? 3);
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30 * 1000;
+
 export type YnabClearingStatus = "cleared" | "uncleared" | "reconciled";
 
+export type YnabFlagColor =
+  | "red"
+  | "orange"
+  | "yellow"
+  | "green"
+  | "blue"
+  | "purple";
+
+export type YnabAccountType =
+  | "checking"
+  | "savings"
+  | "cash"
+  | "creditCard"
+  | "lineOfCredit"
+  | "otherAsset"
+  | "otherLiability"
+  | "mortgage"
+  | "autoLoan"
+  | "studentLoan"
+  | "personalLoan"
+  | "medicalDebt"
+  | "otherDebt";
+
+export type YnabScheduledFrequency =
+  | "never"
+  | "daily"
+  | "weekly"
+  | "everyOtherWeek"
+  | "twiceAMonth"
+  | "every4Weeks"
+  | "monthly"
+  | "everyOtherMonth"
+  | "every3Months"
+  | "every4Months"
+  | "twiceAYear"
+  | "yearly"
+  | "everyOtherYear";
+
+// One part of a split transaction; the parts' amounts add up to the
+// transaction's
+export interface YnabSubTransaction {
+  amount: number;
+  payee_id?: string;
+  payee_name?: string;
+  category_id?: string;
+  memo?: string;
+}
+
 export interface YnabTransaction {
   account_id: string;
   date: string;
   amount: number;
   payee_id?: string;
   payee_name?: string;
+  category_id?: string;
   memo?: string;
   cleared?: YnabClearingStatus;
   approved?: boolean;
+  flag_color?: YnabFlagColor;
   import_id?: string;
+  subtransactions?: YnabSubTransaction[];
+}
+
+// Fields sent when updating an existing transaction; category_id null
+// clears the category (required when turning it into a transfer)
+export type YnabTransactionUpdate =
+  & { id: string }
+  & Partial<Omit<YnabTransaction, "category_id">>
+  & { category_id?: string | null };
+
+export interface YnabSubTransactionDetail {
+  id: string;
+  transaction_id: string;
+  amount: number;
+  memo: string | null;
+  payee_id: string | null;
+  payee_name: string | null;
+  category_id: string | null;
+  category_name: string | null;
+  transfer_account_id: string | null;
+  deleted: boolean;
+}
+
+// A transaction as returned by YNAB
+export interface YnabTransactionDetail {
+  id: string;
+  account_id: string;
+  account_name: string;
+  date: string;
+  amount: number;
+  payee_id: string | null;
+  payee_name: string | null;
+  category_id: string | null;
+  category_name: string | null;
+  memo: string | null;
+  cleared: YnabClearingStatus;
+  approved: boolean;
+  flag_color: YnabFlagColor | null;
+  import_id: string | null;
+  transfer_account_id: string | null;
+  transfer_transaction_id: string | null;
+  matched_transaction_id: string | null;
+  subtransactions: YnabSubTransactionDetail[];
+  deleted: boolean;
+}
+
+export interface YnabBudgetSummary {
+  id: string;
+  name: string;
+  last_modified_on: string | null;
+  first_month: string | null;
+  last_month: string | null;
+}
+
+// An account as returned by YNAB; balances are in milliunits
+export interface YnabAccountDetail {
+  id: string;
+  name: string;
+  type: YnabAccountType;
+  on_budget: boolean;
+  closed: boolean;
+  note: string | null;
+  balance: number;
+  cleared_balance: number;
+  uncleared_balance: number;
+  transfer_payee_id: string;
+  last_reconciled_at: string | null;
+  deleted: boolean;
+}
+
+// A category; amounts are in milliunits for the current month (or the
+// month it was fetched for)
+export interface YnabCategory {
+  id: string;
+  category_group_id: string;
+  name: string;
+  hidden: boolean;
+  note: string | null;
+  budgeted: number;
+  activity: number;
+  balance: number;
+  deleted: boolean;
+}
+
+export interface YnabCategoryGroup {
+  id: string;
+  name: string;
+  hidden: boolean;
+  deleted: boolean;
+  categories: YnabCategory[];
+}
+
+export interface YnabPayee {
+  id: string;
+  name: string;
+  transfer_account_id: string | null; // Set for an account's transfer payee
+  deleted: boolean;
+}
+
+// A budget month (YYYY-MM-01); amounts are in milliunits
+export interface YnabMonthSummary {
+  month: string;
+  note: string | null;
+  income: number;
+  budgeted: number;
+  activity: number;
+  to_be_budgeted: number;
+  age_of_money: number | null;
+  deleted: boolean;
+}
+
+export interface YnabMonthDetail extends YnabMonthSummary {
+  categories: YnabCategory[];
+}
+
+export interface YnabScheduledSubTransaction {
+  id: string;
+  scheduled_transaction_id: string;
+  amount: number;
+  memo: string | null;
+  payee_id: string | null;
+  category_id: string | null;
+  transfer_account_id: string | null;
+  deleted: boolean;
+}
+
+export interface YnabScheduledTransaction {
+  id: string;
+  date_first: string;
+  date_next: string;
+  frequency: YnabScheduledFrequency;
+  amount: number;
+  memo: string | null;
+  flag_color: YnabFlagColor | null;
+  account_id: string;
+  account_name: string;
+  payee_id: string | null;
+  payee_name: string | null;
+  category_id: string | null;
+  category_name: string | null;
+  transfer_account_id: string | null;
+  subtransactions: YnabScheduledSubTransaction[];
+  deleted: boolean;
+}
+
+// The result of creating transactions; import IDs YNAB already had are
+// skipped and listed as duplicates
+export interface YnabSaveTransactionsResult {
+  transaction_ids: string[];
+  duplicate_import_ids: string[];
+  transactions?: YnabTransactionDetail[];
 }
 
 export interface YnabClientOptions {
@@ -25,17 +237,57 @@ export interface YnabClientOptions {
 
 interface YnabCreateAccountInput {
   name: string;
-  type:
-    | "checking"
-    | "savings"
-    | "cash"
-    | "creditCard"
-    | "lineOfCredit"
-    | "otherAsset"
-    | "otherLiability";
+  type: YnabAccountType;
   balance?: number;
 }
 
+// YNAB's error body: { "error": { "id": "404.2", "name": ..., "detail": ... } }
+interface YnabErrorBody {
+  error?: { id?: string; name?: string; detail?: string };
+}
+
+/**
+ * A failed YNAB request. `status` is the HTTP status; `errorId` and
+ * `detail` come from YNAB's error body when it sent one.
+ */
+export class YnabError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly errorId?: string,
+    readonly detail?: string,
+  ) {
+    super(message);
+    this.name = "YnabError";
+  }
+}
+
+// 400: YNAB rejected the request body (e.g. a bad date or category)
+export class YnabValidationError extends YnabError {
+  override name = "YnabValidationError";
+}
+
+// 401/403: the token is invalid, revoked or lacks access to the budget
+export class YnabAuthError extends YnabError {
+  override name = "YnabAuthError";
+}
+
+// 404: the budget, account, transaction… doesn't exist
+export class YnabNotFoundError extends YnabError {
+  override name = "YnabNotFoundError";
+}
+
+// 409: conflicts with existing data (e.g. a duplicate import_id on update)
+export class YnabConflictError extends YnabError {
+  override name = "YnabConflictError";
+}
+
+// 429: over the hourly limit, still limited after retrying
+export class YnabRateLimitError extends YnabError {
+  override name = "YnabRateLimitError";
+  retryAfterMs?: number; // When YNAB said to try again
+}
+
 export function createYnabClient({ token, budgetId }: YnabClientOptions) {
   if (!token) throw new Error("YNAB token missing");
 
@@ -43,71 +295,291 @@ export function createYnabClient({ token, budgetId }: YnabClientOptions) {
     path: string,
     init: RequestInit = {},
   ): Promise<T> => {
-    const res = await fetch(`${YNAB_BASE_URL}${path}`, {
-      ...init,
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${token}`,
-        ...(init.headers ?? {}),
-      },
-    });
-
-    if (!res.ok) {
+    for (let attempt = 0;; attempt++) {
+      const res = await fetch(`${YNAB_BASE_URL}${path}`, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+          ...(init.headers ?? {}),
+        },
+      });
+
+      if (res.ok) return (await res.json()) as T;
+
       const body = await res.text();
-      throw new Error(`YNAB ${res.status} ${res.statusText}: ${body}`);
+      const error = toYnabError(res, body);
+
+      // A 429 was never processed; a POST that failed with a 5xx may have
+      // been, and retrying it could create a second account
+      const retryable = res.status === 429 ||
+        (res.status >= 500 && init.method !== "POST");
+      const delay = error instanceof YnabRateLimitError &&
+          error.retryAfterMs !== undefined
+        ? error.retryAfterMs
+        : RETRY_BASE_DELAY_MS * 2 ** attempt;
+
+      if (
+        !retryable || attempt >= YNAB_MAX_RETRIES ||
+        delay > RETRY_MAX_DELAY_MS
+      ) {
+        throw error;
+      }
+
+      console.warn(
+        `YNAB ${res.status} on ${path}; retrying in ${delay} ms (${
+          attempt + 1
+        }/${YNAB_MAX_RETRIES})`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
     }
+  };
 
-    return (await res.json()) as T;
+  const budgetPath = (explicitBudgetId?: string) => {
+    const id = explicitBudgetId ?? budgetId;
+    if (!id) throw new Error("budgetId required");
+    return `/budgets/${id}`;
   };
 
   return {
-    listBudgets: () => ynabFetch<{ data: { budgets: any[] } }>("/budgets"),
+    listBudgets: () =>
+      ynabFetch<{ data: { budgets: YnabBudgetSummary[] } }>("/budgets"),
 
-    listAccounts: (explicitBudgetId?: string) => {
-      const id = explicitBudgetId ?? budgetId;
-      if (!id) throw new Error("budgetId required");
-      return ynabFetch<{ data: { accounts: any[] } }>(
-        `/budgets/${id}/accounts`,
-      );
-    },
+    // Accounts
 
-    listCategories: (explicitBudgetId?: string) => {
-      const id = explicitBudgetId ?? budgetId;
-      if (!id) throw new Error("budgetId required");
-      return ynabFetch<{ data: { category_groups: any[] } }>(
-        `/budgets/${id}/categories`,
-      );
-    },
-
-    listPayees: (explicitBudgetId?: string) => {
-      const id = explicitBudgetId ?? budgetId;
-      if (!id) throw new Error("budgetId required");
-      return ynabFetch<{ data: { payees: any[] } }>(`/budgets/${id}/payees`);
-    },
-
-    createTransaction: (tx: YnabTransaction, explicitBudgetId?: string) => {
-      const id = explicitBudgetId ?? budgetId;
-      if (!id) throw new Error("budgetId required");
-      return ynabFetch<
-        { data: { transaction_ids: string[]; duplicate_import_ids: string[] } }
-      >(
-        `/budgets/${id}/transactions`,
-        { method: "POST", body: JSON.stringify({ transactions: [tx] }) },
-      );
-    },
+    listAccounts: (explicitBudgetId?: string) =>
+      ynabFetch<{ data: { accounts: YnabAccountDetail[] } }>(
+        `${budgetPath(explicitBudgetId)}/accounts`,
+      ),
+
+    getAccount: (accountId: string, explicitBudgetId?: string) =>
+      ynabFetch<{ data: { account: YnabAccountDetail } }>(
+        `${budgetPath(explicitBudgetId)}/accounts/${accountId}`,
+      ),
 
     createAccount: (
       account: YnabCreateAccountInput,
       explicitBudgetId?: string,
-    ) => {
-      const id = explicitBudgetId ?? budgetId;
-      if (!id) throw new Error("budgetId required");
-      return ynabFetch<{ data: { account: any } }>(`/budgets/${id}/accounts`, {
-        method: "POST",
-        body: JSON.stringify({
-          account: { ...account, balance: account.balance ?? 0 },
-        }),
-      });
-    },
+    ) =>
+      ynabFetch<{ data: { account: YnabAccountDetail } }>(
+        `${budgetPath(explicitBudgetId)}/accounts`,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            account: { ...account, balance: account.balance ?? 0 },
+          }),
+        },
+      ),
+
+    // Categories
+
+    listCategories: (explicitBudgetId?: string) =>
+      ynabFetch<{ data: { category_groups: YnabCategoryGroup[] } }>(
+        `${budgetPath(explicitBudgetId)}/categories`,
+      ),
+
+    getCategory: (categoryId: string, explicitBudgetId?: string) =>
+      ynabFetch<{ data: { category: YnabCategory } }>(
+        `${budgetPath(explicitBudgetId)}/categories/${categoryId}`,
+      ),
+
+    // Sets a category's budgeted amount (milliunits) for a month
+    // (YYYY-MM-01, or "current")
+    updateMonthCategory: (
+      month: string,
+      categoryId: string,
+      budgeted: number,
+      explicitBudgetId?: string,
+    ) =>
+      ynabFetch<{ data: { category: YnabCategory } }>(
+        `${
+          budgetPath(explicitBudgetId)
+        }/months/${month}/categories/${categoryId}`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({ category: { budgeted } }),
+        },
+      ),
+
+    // Payees
+
+    listPayees: (explicitBudgetId?: string) =>
+      ynabFetch<{ data: { payees: YnabPayee[] } }>(
+        `${budgetPath(explicitBudgetId)}/payees`,
+      ),
+
+    getPayee: (payeeId: string, explicitBudgetId?: string) =>
+      ynabFetch<{ data: { payee: YnabPayee } }>(
+        `${budgetPath(explicitBudgetId)}/payees/${payeeId}`,
+      ),
+
+    renamePayee: (payeeId: string, name: string, explicitBudgetId?: string) =>
+      ynabFetch<{ data: { payee: YnabPayee } }>(
+        `${budgetPath(explicitBudgetId)}/payees/${payeeId}`,
+        { method: "PATCH", body: JSON.stringify({ payee: { name } }) },
+      ),
+
+    // Months
+
+    listMonths: (explicitBudgetId?: string) =>
+      ynabFetch<{ data: { months: YnabMonthSummary[] } }>(
+        `${budgetPath(explicitBudgetId)}/months`,
+      ),
+
+    // month is YYYY-MM-01, or "current"
+    getMonth: (month: string, explicitBudgetId?: string) =>
+      ynabFetch<{ data: { month: YnabMonthDetail } }>(
+        `${budgetPath(explicitBudgetId)}/months/${month}`,
+      ),
+
+    // Transactions
+
+    // Transactions on or after sinceDate (YYYY-MM-DD), across all accounts
+    listTransactions: (sinceDate: string, explicitBudgetId?: string) =>
+      ynabFetch<{ data: { transactions: YnabTransactionDetail[] } }>(
+        `${budgetPath(explicitBudgetId)}/transactions?since_date=${sinceDate}`,
+      ),
+
+    // Transactions on or after sinceDate (YYYY-MM-DD) in one account
+    listAccountTransactions: (
+      accountId: string,
+      sinceDate: string,
+      explicitBudgetId?: string,
+    ) =>
+      ynabFetch<{ data: { transactions: YnabTransactionDetail[] } }>(
+        `${
+          budgetPath(explicitBudgetId)
+        }/accounts/${accountId}/transactions?since_date=${sinceDate}`,
+      ),
+
+    getTransaction: (transactionId: string, explicitBudgetId?: string) =>
+      ynabFetch<{ data: { transaction: YnabTransactionDetail } }>(
+        `${budgetPath(explicitBudgetId)}/transactions/${transactionId}`,
+      ),
+
+    createTransaction: (tx: YnabTransaction, explicitBudgetId?: string) =>
+      ynabFetch<{ data: YnabSaveTransactionsResult }>(
+        `${budgetPath(explicitBudgetId)}/transactions`,
+        { method: "POST", body: JSON.stringify({ transactions: [tx] }) },
+      ),
+
+    // Posts many transactions in one call (counts as one request against
+    // YNAB's rate limit)
+    createTransactions: (
+      transactions: YnabTransaction[],
+      explicitBudgetId?: string,
+    ) =>
+      ynabFetch<{ data: YnabSaveTransactionsResult }>(
+        `${budgetPath(explicitBudgetId)}/transactions`,
+        { method: "POST", body: JSON.stringify({ transactions }) },
+      ),
+
+    // Replaces one transaction's fields (those given; the rest are kept)
+    updateTransaction: (
+      transactionId: string,
+      tx: Partial<YnabTransaction>,
+      explicitBudgetId?: string,
+    ) =>
+      ynabFetch<{ data: { transaction: YnabTransactionDetail } }>(
+        `${budgetPath(explicitBudgetId)}/transactions/${transactionId}`,
+        { method: "PUT", body: JSON.stringify({ transaction: tx }) },
+      ),
+
+    updateTransactions: (
+      transactions: YnabTransactionUpdate[],
+      explicitBudgetId?: string,
+    ) =>
+      ynabFetch<{ data: { transaction_ids: string[] } }>(
+        `${budgetPath(explicitBudgetId)}/transactions`,
+        { method: "PATCH", body: JSON.stringify({ transactions }) },
+      ),
+
+    // Returns the transaction, marked deleted
+    deleteTransaction: (transactionId: string, explicitBudgetId?: string) =>
+      ynabFetch<{ data: { transaction: YnabTransactionDetail } }>(
+        `${budgetPath(explicitBudgetId)}/transactions/${transactionId}`,
+        { method: "DELETE" },
+      ),
+
+    // Scheduled transactions
+
+    listScheduledTransactions: (explicitBudgetId?: string) =>
+      ynabFetch<
+        { data: { scheduled_transactions: YnabScheduledTransaction[] } }
+      >(`${budgetPath(explicitBudgetId)}/scheduled_transactions`),
+
+    getScheduledTransaction: (
+      scheduledTransactionId: string,
+      explicitBudgetId?: string,
+    ) =>
+      ynabFetch<{ data: { scheduled_transaction: YnabScheduledTransaction } }>(
+        `${
+          budgetPath(explicitBudgetId)
+        }/scheduled_transactions/${scheduledTransactionId}`,
+      ),
+
+    deleteScheduledTransaction: (
+      scheduledTransactionId: string,
+      explicitBudgetId?: string,
+    ) =>
+      ynabFetch<{ data: { scheduled_transaction: YnabScheduledTransaction } }>(
+        `${
+          budgetPath(explicitBudgetId)
+        }/scheduled_transactions/${scheduledTransactionId}`,
+        { method: "DELETE" },
+      ),
   };
 }
+
+export type YnabClient = ReturnType<typeof createYnabClient>;
+
+/**
+ * Builds the typed error for a failed response. The message keeps YNAB's
+ * status line and body, as logged and stored with failed SMS.
+ */
+function toYnabError(res: Response, body: string): YnabError {
+  let parsed: YnabErrorBody = {};
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    // Not JSON (e.g. a gateway error page)
+  }
+
+  const message = `YNAB ${res.status} ${res.statusText}: ${body}`;
+  const args = [
+    message,
+    res.status,
+    parsed.error?.id,
+    parsed.error?.detail,
+  ] as const;
+
+  switch (res.status) {
+    case 400:
+      return new YnabValidationError(...args);
+    case 401:
+    case 403:
+      return new YnabAuthError(...args);
+    case 404:
+      return new YnabNotFoundError(...args);
+    case 409:
+      return new YnabConflictError(...args);
+    case 429: {
+      const error = new YnabRateLimitError(...args);
+      error.retryAfterMs = parseRetryAfter(res.headers.get("Retry-After"));
+      return error;
+    }
+    default:
+      return new YnabError(...args);
+  }
+}
+
+/**
+ * Reads Retry-After, in seconds or as an HTTP date, as milliseconds.
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const at = Date.parse(value);
+  return Number.isNaN(at) ? undefined : Math.max(0, at - Date.now());
+}
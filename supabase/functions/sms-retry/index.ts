@@ -0,0 +1,58 @@
+/**
+ * SMS RETRY — Scheduled Supabase Edge Function
+ *
+ * Re-processes SMS in the retry queue whose next attempt is due.
+ * Invoke it on a schedule (pg_cron + pg_net, see README) with the same
+ * x-webhook-secret header as the webhook. It retries every tenant's SMS, so
+ * only the deployment's own WEBHOOK_SECRET is accepted, never a TENANTS one.
+ */
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+
+import { listDueRetries, retryQueuedSms } from "../_shared/retry-queue.ts";
+
+const webhookSecret = Deno.env.get("WEBHOOK_SECRET");
+
+// Max SMS per run — keeps each run well under YNAB's rate limit
+const RETRY_BATCH_SIZE = Number(Deno.env.get("RETRY_BATCH_SIZE")) || 20;
+
+Deno.serve(async (req) => {
+  // Validate webhook secret
+  if (webhookSecret) {
+    const providedSecret = req.headers.get("x-webhook-secret");
+    if (providedSecret !== webhookSecret) {
+      return json({ ok: false, error: "Unauthorized" }, 401);
+    }
+  }
+
+  let due;
+  try {
+    due = await listDueRetries(RETRY_BATCH_SIZE);
+  } catch (err) {
+    console.error("Failed to list retries:", err);
+    return json({ ok: false, error: String(err) }, 500);
+  }
+
+  // One at a time: retries usually hit the same budget and rate limit
+  const results = [];
+  for (const item of due) {
+    const outcome = await retryQueuedSms(item);
+    results.push({
+      id: outcome.id,
+      status: outcome.status,
+      attempts: outcome.attempts,
+      reason: outcome.result.reason,
+    });
+  }
+
+  console.log("SMS RETRY:", { processed: results.length, results });
+
+  return json({ ok: true, processed: results.length, results });
+});
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
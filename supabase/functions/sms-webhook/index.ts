@@ -1,462 +1,358 @@
 /**
  * SMS WEBHOOK — Supabase Edge Function
  *
- * Receives SMS data from iOS Shortcuts and creates transactions in YNAB.
- * Uses Google Gemini AI to intelligently parse SMS messages.
+ * Receives SMS data from iOS Shortcuts (or Android forwarders, Tasker and
+ * Twilio — see _shared/inbound.ts) and creates transactions in YNAB.
+ * Uses an LLM (Gemini by default) to intelligently parse SMS messages, with
+ * deterministic provider rules as a fallback.
  */
 
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 
-import { createYnabClient } from "../_shared/ynab.ts";
 import {
-  ensureCache,
-  getAllCategoryNames,
-  getAllPayeeNames,
-  getCategoryIdByName,
-  getPayeeIdByName,
-  getTransferPayeeIdByAccountName,
-} from "../_shared/ynab-lookup.ts";
-import { makeImportId, normalizeDate } from "../_shared/parsers.ts";
-import { resolveAccountId } from "../_shared/routing.ts";
+  listAccountMappings,
+  MappingKind,
+  normalizeMappingKey,
+  removeAccountMapping,
+  saveAccountMapping,
+} from "../_shared/account-mappings.ts";
 import {
-  GeminiParsedSms,
-  getSign,
-  parseWithGemini,
-  toMilliunits,
-} from "../_shared/gemini.ts";
+  IncomingPayload,
+  isTwilioRequest,
+  normalizePayload,
+  readInboundSms,
+} from "../_shared/inbound.ts";
+import { normalizeDate } from "../_shared/parsers.ts";
+import { processSms, processSmsBatch, SmsInput } from "../_shared/pipeline.ts";
 import {
-  calculateFee,
-  getSmsNotificationFee,
-  senderToProvider,
-  TransferType,
-} from "../_shared/fee-calculator.ts";
-
-// Environment variables (set via Supabase secrets)
-const ynabToken = Deno.env.get("YNAB_TOKEN");
-const ynabBudgetId = Deno.env.get("YNAB_BUDGET_ID");
-const webhookSecret = Deno.env.get("WEBHOOK_SECRET");
-const geminiApiKey = Deno.env.get("GEMINI_API_KEY");
-
-// Cash account name for ATM withdrawal transfers (defaults to "Cash")
-const cashAccountName = Deno.env.get("CASH_ACCOUNT_NAME") || "Cash";
-
-const ynabEnabled = Boolean(ynabToken && ynabBudgetId);
-const geminiEnabled = Boolean(geminiApiKey);
-
-// Payload from iOS Shortcuts
-interface IncomingPayload {
-  source?: string;
-  text?: unknown;
-  received_at?: string;
-  receivedAt?: string;
-  sender?: string;
-}
+  getQueuedSms,
+  recordOutcome,
+  retryQueuedSms,
+} from "../_shared/retry-queue.ts";
+import { findTenantBySecret, getTenant, Tenant } from "../_shared/tenants.ts";
 
-// Result returned to caller and logged
-interface YnabResult {
-  sent: boolean;
-  reason?: string;
-  detail?: string;
-  account?: string;
-  transfer_to?: string; // If ATM withdrawal, shows the Cash account name
-  category?: string;
-  payee?: string;
-  payee_matched?: boolean;
-  payee_extracted?: string;
-  memo?: string;
-  amount?: number;
-  direction?: string;
-  transaction_ids?: string[];
-  duplicate_import_ids?: string[];
-  fee?: {
-    amount: number;
-    payee: string | null;
-    transaction_id?: string;
-    transfer_type?: string;
-  };
-  sms_fee?: {
-    amount: number;
-    payee: string | null;
-    transaction_id?: string;
-  };
-  ai_parsed?: GeminiParsedSms;
-  ai_raw?: string;
-}
+// Authenticates the /mappings admin routes (x-admin-secret header); without
+// it they're disabled
+const adminSecret = Deno.env.get("ADMIN_SECRET");
+
+// Max SMS per batch request — larger backfills should be split up
+const BATCH_MAX_MESSAGES = Number(Deno.env.get("BATCH_MAX_MESSAGES")) || 200;
 
 // Main request handler
 Deno.serve(async (req) => {
-  // Validate webhook secret
-  if (webhookSecret) {
-    const providedSecret = req.headers.get("x-webhook-secret");
-    if (providedSecret !== webhookSecret) {
-      return json({ ok: false, error: "Unauthorized" }, 401);
+  // Twilio can't send custom headers; its requests are authenticated by
+  // signature instead, only for the single-SMS route, and name their tenant
+  // in the webhook URL (?tenant=jane)
+  if (isTwilioRequest(req)) {
+    const tenant = getTenant(new URL(req.url).searchParams.get("tenant"));
+    if (!tenant) return json({ ok: false, error: "Unknown tenant" }, 404);
+    return await handleSms(req, tenant);
+  }
+
+  // /sms-webhook/mappings[/:kind/:key] — manage sender and ending mappings
+  const mappingsMatch = new URL(req.url).pathname.match(
+    /\/mappings(?:\/(sender|ending)\/([^/]+))?\/?$/,
+  );
+  if (mappingsMatch) {
+    return await handleMappings(
+      req,
+      mappingsMatch[1] as MappingKind | undefined,
+      mappingsMatch[2] && decodeURIComponent(mappingsMatch[2]),
+    );
+  }
+
+  // The webhook secret says whose SMS this is
+  const tenant = findTenantBySecret(req.headers.get("x-webhook-secret"));
+  if (!tenant) {
+    return json({ ok: false, error: "Unauthorized" }, 401);
+  }
+
+  // POST /sms-webhook/replay/:id — re-run a queued SMS
+  const replayMatch = new URL(req.url).pathname.match(
+    /\/replay\/([0-9a-f-]{36})\/?$/i,
+  );
+  if (replayMatch) {
+    if (req.method !== "POST") {
+      return json({ ok: false, error: "Method not allowed" }, 405);
     }
+    return await handleReplay(replayMatch[1], tenant);
   }
 
-  // Parse payload
-  let payload: IncomingPayload;
-  try {
-    payload = await req.json();
-  } catch {
-    return json({ ok: false, error: "Invalid JSON" }, 400);
+  // POST /sms-webhook/batch — backfill many SMS at once
+  if (/\/batch\/?$/.test(new URL(req.url).pathname)) {
+    if (req.method !== "POST") {
+      return json({ ok: false, error: "Method not allowed" }, 405);
+    }
+    return await handleBatch(req, tenant);
+  }
+
+  return await handleSms(req, tenant);
+});
+
+/**
+ * Handles a single SMS from the iOS Shortcut or any other inbound adapter.
+ * A dry run (`?dry_run=true` or `"dry_run": true` in the body) parses,
+ * routes and plans fees in full but posts nothing and logs nothing.
+ */
+async function handleSms(req: Request, tenant: Tenant): Promise<Response> {
+  // Parse payload, whatever app or service forwarded it
+  const inbound = await readInboundSms(req);
+  if (!inbound.ok) {
+    return json({ ok: false, error: inbound.error }, inbound.status);
   }
 
   // Normalize fields
-  const source = payload.source ?? "unknown";
-  const rawText = payload.text ?? "";
-  const text = typeof rawText === "string" ? rawText : JSON.stringify(rawText);
-  const receivedAtRaw = payload.receivedAt ?? payload.received_at;
-  const receivedAtIso = normalizeDate(receivedAtRaw);
-  const sender = payload.sender ?? "unknown";
+  const sms = toSmsInput(inbound.payload);
+  const dryRun = isDryRun(req, inbound.raw);
 
   // Process with YNAB
-  const ynabResult = ynabEnabled
-    ? await processWithYnab({ text, sender, receivedAtIso })
-    : { sent: false, reason: "YNAB not configured" };
+  const ynabResult = await processSms(sms, { tenant, dryRun });
 
   // Log result
   console.log("SMS WEBHOOK:", {
-    source,
-    sender,
-    text: text.slice(0, 100),
+    tenant: tenant.id,
+    source: sms.source,
+    adapter: inbound.adapter,
+    sender: sms.sender,
+    text: sms.text.slice(0, 100),
+    dryRun,
     ynabResult,
   });
 
+  // Queue transient failures so the SMS isn't lost
+  const { ingestionId, retryId } = dryRun
+    ? {}
+    : await recordOutcome(sms, inbound.raw, ynabResult, tenant.id);
+
+  // Twilio expects TwiML back; an empty response sends no reply SMS
+  if (inbound.adapter === "twilio") {
+    return new Response("<Response></Response>", {
+      headers: { "Content-Type": "text/xml" },
+    });
+  }
+
   return json({
     ok: true,
-    source,
-    sender,
-    received_at: receivedAtIso,
-    preview: text.slice(0, 160),
+    dry_run: dryRun || undefined,
+    source: sms.source,
+    sender: sms.sender,
+    received_at: sms.receivedAtIso,
+    preview: sms.text.slice(0, 160),
+    ingestion_id: ingestionId,
+    retry_id: retryId,
     ynab: ynabResult,
   });
-});
+}
 
 /**
- * Processes an SMS and creates a transaction in YNAB.
+ * Handles a batch of SMS: `{ "messages": [...] }` or a bare array, each in
+ * any JSON format the inbound adapters accept. Returns one result per
+ * message, in order. Supports dry runs like single SMS.
  */
-async function processWithYnab(params: {
-  text: string;
-  sender: string;
-  receivedAtIso: string;
-}): Promise<YnabResult> {
-  const { text, sender, receivedAtIso } = params;
-
-  if (!ynabToken || !ynabBudgetId) {
-    return { sent: false, reason: "YNAB env missing" };
-  }
-
-  if (!geminiEnabled || !geminiApiKey) {
-    return { sent: false, reason: "GEMINI_API_KEY not configured" };
-  }
-
-  // Initialize YNAB client and fetch categories/payees
-  const client = createYnabClient({ token: ynabToken, budgetId: ynabBudgetId });
-
+async function handleBatch(
+  req: Request,
+  tenant: Tenant,
+): Promise<Response> {
+  let body: unknown;
   try {
-    await ensureCache(client, ynabBudgetId);
-  } catch (err) {
-    console.error("Failed to fetch YNAB data:", err);
-    return {
-      sent: false,
-      reason: "Failed to fetch YNAB data",
-      detail: String(err),
-    };
+    body = await req.json();
+  } catch {
+    return json({ ok: false, error: "Invalid JSON" }, 400);
   }
 
-  const categories = getAllCategoryNames();
-  const payees = getAllPayeeNames();
-
-  // Parse SMS with Gemini AI
-  // Pass sender so AI can determine same_network vs cross_network transfers
-  const geminiResult = await parseWithGemini(text, geminiApiKey, {
-    categories,
-    payees,
-    receivedAt: receivedAtIso,
-    sender,
-  });
+  const payloads = Array.isArray(body)
+    ? body
+    : (body as { messages?: unknown })?.messages;
 
-  if (!geminiResult.success || !geminiResult.parsed) {
-    console.error("Gemini parsing failed:", geminiResult.error);
-    return {
-      sent: false,
-      reason: "AI parsing failed",
-      detail: geminiResult.error,
-      ai_raw: geminiResult.raw_response,
-    };
+  if (!Array.isArray(payloads) || payloads.length === 0) {
+    return json(
+      { ok: false, error: "Expected a non-empty messages array" },
+      400,
+    );
   }
-
-  const aiParsed = geminiResult.parsed;
-
-  // Check if this is a transaction
-  if (!aiParsed.is_transaction) {
-    return {
-      sent: false,
-      reason: "Not a transaction",
-      detail: aiParsed.reason,
-      ai_parsed: aiParsed,
-      ai_raw: geminiResult.raw_response,
-    };
+  if (payloads.length > BATCH_MAX_MESSAGES) {
+    return json({
+      ok: false,
+      error: `Too many messages (max ${BATCH_MAX_MESSAGES} per batch)`,
+    }, 413);
   }
 
-  // Validate required fields
-  if (aiParsed.amount === null || aiParsed.amount === undefined) {
-    return {
-      sent: false,
-      reason: "AI could not extract amount",
-      ai_parsed: aiParsed,
-    };
+  const smsList = payloads.map((item) =>
+    toSmsInput(normalizePayload(item)?.payload ?? (item as IncomingPayload))
+  );
+  const dryRun = isDryRun(req, body);
+  const ynabResults = await processSmsBatch(smsList, { tenant, dryRun });
+
+  const results = [];
+  for (const [index, sms] of smsList.entries()) {
+    const ynabResult = ynabResults[index];
+    const payload = payloads[index];
+
+    const { ingestionId, retryId } = dryRun
+      ? {}
+      : await recordOutcome(sms, payload, ynabResult, tenant.id);
+
+    results.push({
+      index,
+      sender: sms.sender,
+      received_at: sms.receivedAtIso,
+      ingestion_id: ingestionId,
+      retry_id: retryId,
+      ynab: ynabResult,
+    });
   }
 
-  if (!aiParsed.direction) {
-    return {
-      sent: false,
-      reason: "AI could not determine direction",
-      ai_parsed: aiParsed,
-    };
-  }
+  const sent = ynabResults.filter((r) => r.sent).length;
+  console.log("SMS BATCH:", {
+    tenant: tenant.id,
+    count: smsList.length,
+    sent,
+    dryRun,
+  });
 
-  // Resolve YNAB account
-  const routing = await resolveAccountId(text, sender, client, ynabBudgetId);
+  return json({
+    ok: true,
+    dry_run: dryRun || undefined,
+    count: smsList.length,
+    sent,
+    results,
+  });
+}
 
-  if (!routing.accountId) {
-    return { sent: false, reason: "No account resolved", ai_parsed: aiParsed };
+/**
+ * Re-processes one of the tenant's SMS from the retry queue, whatever its
+ * status.
+ */
+async function handleReplay(id: string, tenant: Tenant): Promise<Response> {
+  let item;
+  try {
+    item = await getQueuedSms(id);
+  } catch (err) {
+    return json({ ok: false, error: String(err) }, 500);
   }
 
-  // Check if this is an ATM withdrawal — should be recorded as transfer to Cash
-  const isAtmWithdrawal = aiParsed.transfer_type === "withdrawal";
-
-  // For ATM withdrawals, get the Cash account's transfer payee ID
-  // This makes the transaction a transfer instead of a regular outflow
-  let transferPayeeId: string | undefined;
-  if (isAtmWithdrawal) {
-    transferPayeeId = getTransferPayeeIdByAccountName(cashAccountName);
-    if (!transferPayeeId) {
-      console.warn(
-        `Cash account "${cashAccountName}" not found — ATM withdrawal will be regular outflow`,
-      );
-    }
+  // Another tenant's SMS looks the same as a missing one
+  if (!item || item.tenant_id !== tenant.id) {
+    return json({ ok: false, error: "Queued SMS not found" }, 404);
   }
 
-  // Look up category and payee IDs (skip for transfers)
-  const categoryId =
-    aiParsed.category && !transferPayeeId
-      ? getCategoryIdByName(aiParsed.category)
-      : undefined;
-
-  let payeeId: string | undefined;
-  let payeeMatched = false;
-  if (transferPayeeId) {
-    // ATM withdrawal: use transfer payee (creates transfer to Cash account)
-    payeeId = transferPayeeId;
-    payeeMatched = true;
-  } else if (aiParsed.payee) {
-    // Regular transaction: look up payee by name
-    payeeId = getPayeeIdByName(aiParsed.payee);
-    payeeMatched = !!payeeId;
-  }
+  const outcome = await retryQueuedSms(item);
+  console.log("SMS REPLAY:", outcome);
 
-  // Generate import ID for deduplication
-  const amountMilli = toMilliunits(aiParsed.amount);
-  const importId = await makeImportId({
-    sender,
-    date: receivedAtIso,
-    amountMilli,
-    text,
-  });
+  return json({ ok: true, retry: outcome });
+}
 
-  // Build transaction
-  const sign = getSign(aiParsed.direction);
-  const memo = aiParsed.memo ?? text.slice(0, 200);
-
-  const transaction: Record<string, unknown> = {
-    account_id: routing.accountId,
-    date: receivedAtIso.slice(0, 10),
-    amount: amountMilli * sign,
-    memo,
-    cleared: "cleared",
-    approved: false,
-    import_id: importId,
-  };
+/**
+ * Admin API for a tenant's sender aliases and account endings
+ * (`?tenant=jane`, default tenant otherwise):
+ *
+ *   GET    /mappings               List mappings, defaults included
+ *   POST   /mappings               Add or replace { "kind", "key", "account" }
+ *   DELETE /mappings/:kind/:key    Remove one
+ */
+async function handleMappings(
+  req: Request,
+  kind: MappingKind | undefined,
+  key: string | undefined,
+): Promise<Response> {
+  if (!adminSecret) {
+    return json({ ok: false, error: "Admin API disabled" }, 404);
+  }
+  if (req.headers.get("x-admin-secret") !== adminSecret) {
+    return json({ ok: false, error: "Unauthorized" }, 401);
+  }
 
-  if (payeeId) transaction.payee_id = payeeId;
-  // Don't set category for transfers (YNAB doesn't allow it)
-  if (categoryId && !transferPayeeId) transaction.category_id = categoryId;
+  const tenant = getTenant(new URL(req.url).searchParams.get("tenant"));
+  if (!tenant) return json({ ok: false, error: "Unknown tenant" }, 404);
 
-  // Send to YNAB
   try {
-    const res = await client.createTransaction(transaction as any);
-
-    // Create fee transaction if applicable
-    let feeInfo: YnabResult["fee"];
-    const provider = senderToProvider(sender);
-
-    // Calculate fee for known transfer types
-    if (
-      aiParsed.direction === "outflow" &&
-      aiParsed.transfer_type &&
-      aiParsed.transfer_type !== "unknown"
-    ) {
-      const feeResult = calculateFee(
-        provider,
-        aiParsed.transfer_type as TransferType,
-        aiParsed.amount,
-      );
-
-      if (feeResult.fee && feeResult.fee > 0) {
-        const feeCategoryId = feeResult.category
-          ? getCategoryIdByName(feeResult.category)
-          : undefined;
-        const feePayeeId = feeResult.payee
-          ? getPayeeIdByName(feeResult.payee)
-          : undefined;
-
-        const refId = aiParsed.transaction_ref ?? importId;
-        const feeImportId = importId.replace(/^sms:/, "fee:");
-
-        const feeTransaction: Record<string, unknown> = {
-          account_id: routing.accountId,
-          date: receivedAtIso.slice(0, 10),
-          amount: -toMilliunits(feeResult.fee),
-          memo: `Transaction Fee: Ref: ${refId}`,
-          cleared: "cleared",
-          approved: false,
-          import_id: feeImportId,
-        };
-
-        if (feePayeeId) feeTransaction.payee_id = feePayeeId;
-        if (feeCategoryId) feeTransaction.category_id = feeCategoryId;
-
-        try {
-          const feeRes = await client.createTransaction(feeTransaction as any);
-          feeInfo = {
-            amount: feeResult.fee,
-            payee: feeResult.payee,
-            transaction_id: feeRes.data.transaction_ids?.[0],
-            transfer_type: aiParsed.transfer_type,
-          };
-        } catch (feeErr) {
-          console.error("Failed to create fee transaction:", feeErr);
-        }
-      }
+    if (req.method === "GET" && !kind) {
+      const mappings = await listAccountMappings(tenant);
+      return json({ ok: true, tenant: tenant.id, mappings });
     }
 
-    // Create placeholder fee for Absa unknown transfers
-    if (
-      provider === "absa" &&
-      aiParsed.direction === "outflow" &&
-      (!aiParsed.transfer_type || aiParsed.transfer_type === "unknown") &&
-      !feeInfo
-    ) {
-      const FEE_CATEGORY_NAME = Deno.env.get("FEE_CATEGORY_NAME") || null;
-      const placeholderCategoryId = FEE_CATEGORY_NAME
-        ? getCategoryIdByName(FEE_CATEGORY_NAME)
-        : undefined;
-      const absaPayeeId = getPayeeIdByName("Absa Bank");
-      const placeholderFeeImportId = importId.replace(/^sms:/, "plt:");
-
-      const placeholderFeeTransaction: Record<string, unknown> = {
-        account_id: routing.accountId,
-        date: receivedAtIso.slice(0, 10),
-        amount: -toMilliunits(10),
-        memo: "Transfer Fee (estimated K10) - verify & adjust amount",
-        cleared: "cleared",
-        approved: false,
-        import_id: placeholderFeeImportId,
-      };
-
-      if (absaPayeeId) placeholderFeeTransaction.payee_id = absaPayeeId;
-      if (placeholderCategoryId) {
-        placeholderFeeTransaction.category_id = placeholderCategoryId;
-      }
-
+    if (req.method === "POST" && !kind) {
+      let body: { kind?: unknown; key?: unknown; account?: unknown };
       try {
-        const placeholderRes = await client.createTransaction(
-          placeholderFeeTransaction as any,
-        );
-        feeInfo = {
-          amount: 10,
-          payee: "Absa Bank",
-          transaction_id: placeholderRes.data.transaction_ids?.[0],
-          transfer_type: "placeholder",
-        };
-      } catch (placeholderErr) {
-        console.error("Failed to create placeholder fee:", placeholderErr);
+        body = await req.json();
+      } catch {
+        return json({ ok: false, error: "Invalid JSON" }, 400);
       }
-    }
-
-    // Create SMS notification fee if applicable
-    let smsFeeInfo: YnabResult["sms_fee"];
-    const smsNotificationFee = getSmsNotificationFee(provider);
-
-    if (smsNotificationFee.fee && smsNotificationFee.fee > 0) {
-      const smsFeeCategoryId = smsNotificationFee.category
-        ? getCategoryIdByName(smsNotificationFee.category)
-        : undefined;
-      const smsFeePayeeId = smsNotificationFee.payee
-        ? getPayeeIdByName(smsNotificationFee.payee)
-        : undefined;
-
-      const refId = aiParsed.transaction_ref ?? importId;
-      const smsFeeImportId = importId.replace(/^sms:/, "ntf:");
-
-      const smsFeeTransaction: Record<string, unknown> = {
-        account_id: routing.accountId,
-        date: receivedAtIso.slice(0, 10),
-        amount: -toMilliunits(smsNotificationFee.fee),
-        memo: `SMS Notification Fee: Ref: ${refId}`,
-        cleared: "cleared",
-        approved: false,
-        import_id: smsFeeImportId,
-      };
-
-      if (smsFeePayeeId) smsFeeTransaction.payee_id = smsFeePayeeId;
-      if (smsFeeCategoryId) smsFeeTransaction.category_id = smsFeeCategoryId;
 
-      try {
-        const smsFeeRes = await client.createTransaction(
-          smsFeeTransaction as any,
+      const newKind = body.kind;
+      if (newKind !== "sender" && newKind !== "ending") {
+        return json(
+          { ok: false, error: 'kind must be "sender" or "ending"' },
+          400,
         );
-        smsFeeInfo = {
-          amount: smsNotificationFee.fee,
-          payee: smsNotificationFee.payee,
-          transaction_id: smsFeeRes.data.transaction_ids?.[0],
-        };
-      } catch (smsFeeErr) {
-        console.error("Failed to create SMS fee:", smsFeeErr);
       }
+      const newKey = typeof body.key === "string"
+        ? normalizeMappingKey(newKind, body.key)
+        : null;
+      if (!newKey) {
+        return json({
+          ok: false,
+          error: newKind === "ending"
+            ? "key must be the last 4 digits of the account"
+            : "key must be the SMS sender",
+        }, 400);
+      }
+      const account = typeof body.account === "string"
+        ? body.account.trim()
+        : "";
+      if (!account) {
+        return json({ ok: false, error: "account is required" }, 400);
+      }
+
+      await saveAccountMapping(tenant, newKind, newKey, account);
+      return json({
+        ok: true,
+        tenant: tenant.id,
+        mapping: { kind: newKind, key: newKey, account_name: account },
+      }, 201);
     }
 
-    return {
-      sent: true,
-      account: routing.accountName,
-      // If ATM withdrawal, show that it's a transfer to Cash account
-      transfer_to: transferPayeeId ? cashAccountName : undefined,
-      category: aiParsed.category ?? undefined,
-      payee: payeeMatched && !transferPayeeId
-        ? (aiParsed.payee ?? undefined)
-        : undefined,
-      payee_matched: payeeMatched,
-      payee_extracted: aiParsed.payee ?? undefined,
-      memo,
-      amount: aiParsed.amount,
-      direction: aiParsed.direction,
-      transaction_ids: res.data.transaction_ids,
-      duplicate_import_ids: res.data.duplicate_import_ids,
-      fee: feeInfo,
-      sms_fee: smsFeeInfo,
-      ai_parsed: aiParsed,
-      ai_raw: geminiResult.raw_response,
-    };
+    if (req.method === "DELETE" && kind && key) {
+      const normalized = normalizeMappingKey(kind, key);
+      const removed = normalized !== null &&
+        await removeAccountMapping(tenant, kind, normalized);
+      return removed
+        ? json({ ok: true, tenant: tenant.id })
+        : json({ ok: false, error: "Mapping not found" }, 404);
+    }
   } catch (err) {
-    console.error("YNAB error:", err);
-    return {
-      sent: false,
-      reason: "YNAB error",
-      detail: String(err),
-      ai_parsed: aiParsed,
-    };
+    console.error("Mappings admin error:", err);
+    return json({ ok: false, error: String(err) }, 500);
+  }
+
+  return json({ ok: false, error: "Method not allowed" }, 405);
+}
+
+/**
+ * Checks for a dry run: a `dry_run` query parameter (bare, "true" or "1")
+ * or a `dry_run: true` field in the JSON body.
+ */
+function isDryRun(req: Request, body: unknown): boolean {
+  const param = new URL(req.url).searchParams.get("dry_run");
+  if (param !== null && ["", "1", "true"].includes(param.toLowerCase())) {
+    return true;
   }
+
+  const field = (body as { dry_run?: unknown } | null)?.dry_run;
+  return field === true || field === "true" || field === 1;
+}
+
+/**
+ * Normalizes an incoming payload into the pipeline's SMS shape.
+ */
+function toSmsInput(payload: IncomingPayload): SmsInput {
+  const rawText = payload?.text ?? "";
+  return {
+    source: payload?.source ?? "unknown",
+    sender: payload?.sender ?? "unknown",
+    text: typeof rawText === "string" ? rawText : JSON.stringify(rawText),
+    receivedAtIso: normalizeDate(payload?.receivedAt ?? payload?.received_at),
+  };
 }
 
 function json(body: unknown, status = 200): Response {
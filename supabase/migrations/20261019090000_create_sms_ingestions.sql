@@ -0,0 +1,46 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- SMS INGESTION LOG
+-- ═══════════════════════════════════════════════════════════════════════════
+-- One row per webhook request, so we can audit weeks later why an SMS was
+-- skipped, mis-parsed or routed to the wrong account.
+-- Written by the sms-webhook function with the service role key.
+
+create table if not exists public.sms_ingestions (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+
+  -- What arrived
+  source text,
+  sender text,
+  received_at timestamptz,        -- Normalized date used for the transaction
+  raw_payload jsonb not null,     -- Request body exactly as received
+
+  -- What happened
+  status text not null check (status in ('sent', 'skipped', 'failed')),
+  reason text,
+  detail text,
+
+  -- How it was parsed and routed
+  parser text,                    -- gemini | openai | rules
+  ai_raw text,                    -- Raw LLM response
+  ai_parsed jsonb,                -- GeminiParsedSms
+  routing jsonb,                  -- RoutingResult
+
+  -- What was created in YNAB
+  import_id text,
+  transaction_id text,
+  fee_transaction_id text,
+  sms_fee_transaction_id text,
+
+  -- Full YnabResult returned to the caller
+  result jsonb
+);
+
+create index if not exists sms_ingestions_created_at_idx
+  on public.sms_ingestions (created_at desc);
+
+create index if not exists sms_ingestions_status_idx
+  on public.sms_ingestions (status, created_at desc);
+
+-- Only the service role (edge functions) may read or write the log
+alter table public.sms_ingestions enable row level security;
@@ -0,0 +1,39 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- SMS RETRY QUEUE
+-- ═══════════════════════════════════════════════════════════════════════════
+-- SMS that failed for a transient reason (YNAB down, LLM quota exhausted…).
+-- The sms-retry function re-processes due rows with exponential backoff;
+-- POST /sms-webhook/replay/:id re-runs a single row on demand.
+--
+-- received_at is kept as the exact ISO string the import ID was hashed from,
+-- so a successful retry reuses the same import ID and YNAB deduplicates it.
+
+create table if not exists public.sms_retry_queue (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+
+  -- The SMS, normalized exactly as it was first processed
+  source text,
+  sender text not null,
+  received_at text not null,
+  text text not null,
+  raw_payload jsonb,
+  ingestion_id uuid references public.sms_ingestions (id) on delete set null,
+
+  -- Queue state
+  status text not null default 'pending'
+    check (status in ('pending', 'succeeded', 'dead')),
+  failure_reason text not null,
+  failure_detail text,
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_attempt_at timestamptz
+);
+
+create index if not exists sms_retry_queue_due_idx
+  on public.sms_retry_queue (next_attempt_at)
+  where status = 'pending';
+
+-- Only the service role (edge functions) may read or write the queue
+alter table public.sms_retry_queue enable row level security;
@@ -0,0 +1,36 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- FEE SCHEDULES
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Fee schedule versions added on top of the defaults in
+-- supabase/functions/_shared/fee-schedules.json. A transaction uses the
+-- version with the latest effective_from on or before its date, so a tariff
+-- change is a new row rather than a redeploy.
+--
+-- A row with the same provider, transfer type and effective_from as a
+-- default version replaces it. transfer_type 'sms_notification' rows hold
+-- the per-SMS alert fee in `fee`; every other row uses `tiers`:
+--
+--   [{ "min": 0, "max": 150, "fee": 0.74 }, ...]   (min < amount <= max)
+
+create table if not exists public.fee_schedules (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+
+  provider text not null
+    check (provider in ('airtel', 'mtn', 'zamtel', 'absa', 'stanchart', 'unknown')),
+  transfer_type text not null,
+  effective_from date not null,
+  payee text not null,
+  tiers jsonb,
+  fee numeric,
+  note text,
+
+  unique (provider, transfer_type, effective_from),
+  check (
+    (transfer_type = 'sms_notification' and fee is not null)
+    or (transfer_type <> 'sms_notification' and tiers is not null)
+  )
+);
+
+-- Only the service role (edge functions) may read or write fee schedules
+alter table public.fee_schedules enable row level security;
@@ -0,0 +1,18 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- TENANT ID ON LOGGED AND QUEUED SMS
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Several people can share one deployment (TENANTS secret), each with their
+-- own YNAB budget. Every logged or queued SMS records whose it is, so a
+-- retry is posted to the right budget and a replay can only be run by the
+-- tenant that sent the SMS.
+--
+-- Rows written before this migration belong to the "default" tenant.
+
+alter table public.sms_ingestions
+  add column if not exists tenant_id text not null default 'default';
+
+alter table public.sms_retry_queue
+  add column if not exists tenant_id text not null default 'default';
+
+create index if not exists sms_ingestions_tenant_idx
+  on public.sms_ingestions (tenant_id, created_at desc);
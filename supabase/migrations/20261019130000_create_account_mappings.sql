@@ -0,0 +1,29 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- ACCOUNT MAPPINGS
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Sender aliases and account endings, per tenant, added on top of the
+-- defaults in supabase/functions/_shared/config.ts (SENDER_TO_ACCOUNT,
+-- ACCOUNT_ENDINGS) and TENANTS. Managed through the webhook's /mappings
+-- admin routes, so adding a bank no longer needs a redeploy.
+--
+--   kind 'sender'  key = lowercased SMS sender ("absa_zm")
+--   kind 'ending'  key = last 4 digits of the account number ("1234")
+--
+-- A row replaces the default for the same key; a row with a null
+-- account_name removes the default.
+
+create table if not exists public.account_mappings (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+
+  tenant_id text not null default 'default',
+  kind text not null check (kind in ('sender', 'ending')),
+  key text not null,
+  account_name text,              -- Null hides a default mapping
+
+  unique (tenant_id, kind, key)
+);
+
+-- Only the service role (edge functions) may read or write mappings
+alter table public.account_mappings enable row level security;
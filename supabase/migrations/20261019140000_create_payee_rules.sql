@@ -0,0 +1,37 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- PAYEE RULES
+-- ═══════════════════════════════════════════════════════════════════════════
+-- Maps raw payee names extracted from SMS ("SHOPRITE MANDA HILL LUSAKA ZM")
+-- to a canonical YNAB payee ("Shoprite"), optionally with a default category
+-- and a flag colour. Tried in priority order (lowest first) before the
+-- defaults in supabase/functions/_shared/payee-rules.json.
+--
+--   match_type 'contains'  pattern is a case-insensitive substring
+--   match_type 'regex'     pattern is a case-insensitive JavaScript regex
+--
+-- category is only used when the parser returns none. A null tenant_id
+-- applies the rule to every tenant.
+
+create table if not exists public.payee_rules (
+  id text primary key default gen_random_uuid()::text,
+  created_at timestamptz not null default now(),
+
+  tenant_id text,
+  priority integer not null default 100,
+  enabled boolean not null default true,
+
+  match_type text not null default 'contains'
+    check (match_type in ('contains', 'regex')),
+  pattern text not null,
+  payee text not null,
+  category text,
+  flag_color text
+    check (flag_color in ('red', 'orange', 'yellow', 'green', 'blue', 'purple'))
+);
+
+create index if not exists payee_rules_priority_idx
+  on public.payee_rules (priority)
+  where enabled;
+
+-- Only the service role (edge functions) may read or write payee rules
+alter table public.payee_rules enable row level security;
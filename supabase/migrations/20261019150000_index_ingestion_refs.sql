@@ -0,0 +1,10 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- INGESTION LOOKUP BY TRANSACTION REFERENCE
+-- ═══════════════════════════════════════════════════════════════════════════
+-- A reversal SMS ("Transaction ID ABC123 has been reversed") names the
+-- original's reference. The sms-webhook function finds the original's YNAB
+-- transaction and fee rows through the ingestion that imported it.
+
+create index if not exists sms_ingestions_transaction_ref_idx
+  on public.sms_ingestions (tenant_id, (ai_parsed->>'transaction_ref'))
+  where status = 'sent';
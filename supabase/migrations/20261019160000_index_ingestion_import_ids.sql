@@ -0,0 +1,10 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- INGESTION LOOKUP BY IMPORT ID
+-- ═══════════════════════════════════════════════════════════════════════════
+-- A posted card SMS that settles a pending transaction creates nothing in
+-- YNAB, so YNAB can't tell when it's delivered again. The sms-webhook
+-- function looks its import ID up here instead.
+
+create index if not exists sms_ingestions_import_id_idx
+  on public.sms_ingestions (tenant_id, import_id)
+  where status = 'sent';
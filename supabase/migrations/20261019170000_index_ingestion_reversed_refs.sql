@@ -0,0 +1,10 @@
+-- ═══════════════════════════════════════════════════════════════════════════
+-- INGESTION LOOKUP BY REVERSED REFERENCE
+-- ═══════════════════════════════════════════════════════════════════════════
+-- With REVERSAL_MODE=delete a reversal leaves nothing in YNAB, so a second
+-- delivery of it can't find its original there. The sms-webhook function
+-- finds the earlier reversal of the same reference here instead.
+
+create index if not exists sms_ingestions_reversed_ref_idx
+  on public.sms_ingestions (tenant_id, (ai_parsed->>'reversed_ref'))
+  where status = 'sent';
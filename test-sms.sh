@@ -7,6 +7,7 @@
 # Usage:
 #   ./test-sms.sh                    # Interactive mode (prompts for input)
 #   ./test-sms.sh "Your SMS here"    # Direct mode (pass SMS as argument)
+#   DRY_RUN=1 ./test-sms.sh "..."    # Preview only — nothing is posted to YNAB
 #
 # Requirements:
 #   - Set WEBHOOK_SECRET and SUPABASE_URL below (or as environment variables)
@@ -70,8 +71,14 @@ fi
 
 # ── SEND REQUEST ───────────────────────────────────────────────────────────
 
+# Dry run: parse, route and plan fees, but post nothing
+REQUEST_URL="$SUPABASE_URL"
+if [ -n "$DRY_RUN" ]; then
+    REQUEST_URL="$SUPABASE_URL?dry_run=true"
+fi
+
 echo ""
-echo "📤 Sending to: $SUPABASE_URL"
+echo "📤 Sending to: $REQUEST_URL"
 echo "📨 Sender: $SENDER"
 echo "📝 Message: $SMS_TEXT"
 echo ""
@@ -80,7 +87,7 @@ echo ""
 ESCAPED_TEXT=$(echo "$SMS_TEXT" | sed 's/"/\\"/g')
 TIMESTAMP=$(date "+%b %d, %Y at %H:%M")
 
-RESPONSE=$(curl -s -X POST "$SUPABASE_URL" \
+RESPONSE=$(curl -s -X POST "$REQUEST_URL" \
     -H "Content-Type: application/json" \
     -H "x-webhook-secret: $WEBHOOK_SECRET" \
     -d "{